@@ -13,7 +13,7 @@ const options = {
   target: "es2018",
   format: "cjs",
   banner: { js: banner },
-  external: ["obsidian"],
+  external: ["obsidian", "@codemirror/language", "@codemirror/state", "@codemirror/view"],
   sourcemap: isWatch,
   minify: !isWatch,
   platform: "node"
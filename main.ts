@@ -1,24 +1,69 @@
+import { syntaxTree } from "@codemirror/language";
+import { EditorState, RangeSetBuilder } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from "@codemirror/view";
 import {
   App,
+  CachedMetadata,
+  Component,
   Editor,
+  FuzzySuggestModal,
+  ItemView,
   MarkdownPostProcessorContext,
   MarkdownRenderChild,
+  MarkdownSectionInformation,
   MarkdownView,
+  Menu,
   Modal,
   Notice,
   Plugin,
   PluginSettingTab,
-  SectionCache,
   Setting,
   TFile,
+  TextComponent,
+  Vault,
+  WorkspaceLeaf,
+  editorLivePreviewField,
   getLanguage,
+  moment,
+  normalizePath,
   setIcon
 } from "obsidian";
+import type { CountdownApi, CountdownCreateOptions, CountdownFormatOptions, CountdownInfo } from "./src/api";
+import { LOCALES, TranslationOverrides, Translations, buildTranslations } from "./src/locales";
 
 interface CountdownPluginSettings {
   defaultLabel: string;
   defaultDurationMinutes: number;
   defaultColor: string;
+  notificationsEnabled: boolean;
+  systemNotifications: boolean;
+  notificationSound: boolean;
+  reminderLeadMinutes: number[];
+  quickPresetMinutes: number[];
+  quickTimerInsertBlock: boolean;
+  pomodoroWorkMinutes: number;
+  pomodoroBreakMinutes: number;
+  pomodoroLongBreakMinutes: number;
+  pomodoroLongBreakEvery: number;
+  pomodoroLogToDailyNote: boolean;
+  defaultUnits: CountdownUnitKey[];
+  defaultFormat: CountdownDisplayFormat;
+  hideLeadingZeros: boolean;
+  taskCountdowns: boolean;
+  colorPalette: string[];
+  defaultStyle: CountdownBlockStyle;
+  /** Forced interface language; empty follows Obsidian. */
+  language: string;
+  /** Vault path of a JSON file with translation overrides. */
+  translationFile: string;
+  /** Weekdays counted by `calendar: business` blocks; 0 is Sunday. */
+  workdays: number[];
+  workdayStart: string;
+  workdayEnd: string;
+  /** YYYY-MM-DD dates that are off even when their weekday is a working day. */
+  holidays: string[];
+  /** YYYY-MM-DD dates that are worked even when their weekday is not, such as make-up workdays. */
+  extraWorkdays: string[];
 }
 
 const COLOR_PRESETS = [
@@ -31,153 +76,430 @@ const COLOR_PRESETS = [
   "#98A2B3"
 ];
 
+/** Colours of Obsidian's theme palette, stored in blocks by name and drawn as `var(--color-<name>)`. */
+const THEME_COLOR_NAMES = ["accent", "red", "orange", "yellow", "green", "cyan", "blue", "purple", "pink"];
+
 const COUNTDOWN_CONTAINER_CLASS = "obsidian-countdown__container";
+const COUNTDOWN_EXPIRED_CLASS = "obsidian-countdown__expired";
 const COLOR_OPTION_CLASS = "obsidian-countdown__color-option";
+const TASK_COUNTDOWN_CLASS = "obsidian-countdown-inline--task";
+const COUNTDOWN_LIST_VIEW_TYPE = "countdown-list";
+
+/** Built-in quick timers; each also gets its own command. */
+const QUICK_TIMER_MINUTES = [5, 15, 25, 50];
+
+/** Upcoming countdowns listed in the status bar menu. */
+const STATUS_BAR_MENU_SIZE = 5;
+
+/** How long after a second boundary the shared clock ticks. */
+const CLOCK_TICK_OFFSET_MS = 5;
+
+/** File written at the vault root by the vault-wide export. */
+const ICS_EXPORT_FILE_NAME = "countdowns.ics";
+
+/**
+ * How long after a note is created its template placeholders are pinned. Templater
+ * fills a new note just after creating it; placeholders typed later are left alone.
+ */
+const TEMPLATE_PIN_WINDOW_MS = 10 * 1000;
 
 const DEFAULT_SETTINGS: CountdownPluginSettings = {
   defaultLabel: "Countdown",
   defaultDurationMinutes: 60,
-  defaultColor: COLOR_PRESETS[1]
+  defaultColor: COLOR_PRESETS[1],
+  notificationsEnabled: true,
+  systemNotifications: false,
+  notificationSound: false,
+  reminderLeadMinutes: [],
+  quickPresetMinutes: [],
+  quickTimerInsertBlock: false,
+  pomodoroWorkMinutes: 25,
+  pomodoroBreakMinutes: 5,
+  pomodoroLongBreakMinutes: 15,
+  pomodoroLongBreakEvery: 4,
+  pomodoroLogToDailyNote: true,
+  defaultUnits: ["days", "hours", "minutes", "seconds"],
+  defaultFormat: "digits",
+  hideLeadingZeros: false,
+  taskCountdowns: false,
+  colorPalette: [...COLOR_PRESETS],
+  defaultStyle: "ribbon",
+  language: "",
+  translationFile: "",
+  workdays: [1, 2, 3, 4, 5],
+  workdayStart: "09:00",
+  workdayEnd: "18:00",
+  holidays: [],
+  extraWorkdays: []
 };
 
 type CountdownBlockContext = {
   sourcePath: string;
-  section: SectionCache;
+  section: MarkdownSectionInformation;
+};
+
+/**
+ * What a block shows once its target has passed:
+ * - `freeze` stops at zero,
+ * - `elapsed` keeps counting the time since the target with a "+" marker,
+ * - `message` replaces the digits with a custom completion message.
+ */
+type CountdownExpiryMode = "freeze" | "elapsed" | "message";
+
+const EXPIRY_MODES: CountdownExpiryMode[] = ["freeze", "elapsed", "message"];
+const DEFAULT_EXPIRY_MODE: CountdownExpiryMode = "freeze";
+
+/**
+ * - `countdown` counts down to the target,
+ * - `since` counts up from a past target,
+ * - `stopwatch` ignores the target and counts its own accumulated running time.
+ */
+type CountdownMode = "countdown" | "since" | "stopwatch";
+
+const COUNTDOWN_MODES: CountdownMode[] = ["countdown", "since", "stopwatch"];
+const DEFAULT_MODE: CountdownMode = "countdown";
+
+/** Stopwatch state as stored in the block: time banked so far plus the start of the current run. */
+type StopwatchState = {
+  elapsedMs: number;
+  startedAt: Date | null;
 };
 
+/**
+ * A `repeat:` rule. Daily, weekly and monthly rules fire at the time of day of the
+ * block's target; weekly/monthly rules without explicit days fall back to the target's
+ * weekday or day of month. Cron rules carry their own times.
+ */
+type RecurrenceRule =
+  | { kind: "daily" }
+  | { kind: "weekly"; weekdays: number[] }
+  | { kind: "monthly"; day: number | "last" | null }
+  | { kind: "cron"; expression: string; schedule: CronSchedule };
+
+type CronSchedule = {
+  minutes: number[];
+  hours: number[];
+  days: number[];
+  months: number[];
+  weekdays: number[];
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+};
+
+type RecurrenceKind = RecurrenceRule["kind"];
+
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** How far occurrence searches look before giving up (covers rules like Feb 29). */
+const MAX_RECURRENCE_SCAN_DAYS = 366 * 5;
+
 type CountdownBlockData = {
   target: Date;
   label: string;
   color: string;
+  expiry: CountdownExpiryMode;
+  expiryMessage: string;
+  mode: CountdownMode;
+  stopwatch: StopwatchState;
+  repeat: RecurrenceRule | null;
+  timeZone: string | null;
+  targetReference: TargetReference | null;
+  /** Beginning of the window the progress visual measures; `null` hides it. */
+  start: Date | null;
+  /** Time left when the countdown was paused; `null` while it runs. */
+  pausedRemaining: number | null;
+  /** Pinned countdowns take precedence in the status bar. */
+  pinned: boolean;
+};
+
+/**
+ * `target: {{due}}` reads the `due` property of the block's own note;
+ * `target: [[Project X]]#deadline` reads `deadline` from the linked note.
+ */
+type TargetReference = {
+  link: string | null;
+  property: string;
+};
+
+/**
+ * A template placeholder such as `+14d@18:00`: an offset from the note's creation
+ * date (or a daily note's date), optionally moved to a time of day.
+ */
+type TemplateTarget = {
+  days: number;
+  ms: number;
+  time: [number, number] | null;
+};
+
+/** A countdown block found while scanning the vault. Line numbers include the fences. */
+type IndexedCountdown = {
+  id: string;
+  path: string;
+  lineStart: number;
+  lineEnd: number;
+  target: Date;
+  label: string;
+  color: string;
+  notify: boolean;
+  repeat: RecurrenceRule | null;
+  /** The block's `tz`; repeat rules are followed on that zone's calendar and clock. */
+  timeZone: string | null;
+  /** Note whose frontmatter supplies the target, when the block references a property. */
+  referencePath: string | null;
+  pinned: boolean;
 };
 
-type CountdownModalResult = CountdownBlockData;
+type CountdownModalResult = Omit<
+  CountdownBlockData,
+  "stopwatch" | "targetReference" | "pausedRemaining" | "pinned"
+>;
 
 type CountdownModalOptions = {
   heading: string;
   initialTarget: Date;
   initialLabel: string;
   initialColor: string;
+  initialExpiry: CountdownExpiryMode;
+  initialExpiryMessage: string;
+  initialMode: CountdownMode;
+  initialRepeat: RecurrenceRule | null;
+  initialTimeZone: string | null;
+  initialStart: Date | null;
+  /** Inline countdowns only carry a target, label and colour, so the other rows are hidden. */
+  inline?: boolean;
   strings: Translations;
   onSubmit: (result: CountdownModalResult) => Promise<void> | void;
 };
 
+type TimelineLayout = "horizontal" | "vertical";
+
+type TimelineMilestone = InlineCountdownSpec & {
+  /** Line of the milestone within the block body, for rewriting it in place. */
+  line: number;
+};
+
+/** An open checklist item with a Tasks-style (`📅 2026-11-01`) or Dataview-style (`[due:: 2026-11-01]`) due date. */
+type TaskDueDate = {
+  due: Date;
+  /** Task text without the checkbox and metadata, used as a label. */
+  text: string;
+  done: boolean;
+};
+
+/** A VEVENT read from an .ics file, reduced to what a countdown block can hold. */
+type IcsEvent = {
+  summary: string;
+  start: Date;
+  /** DTEND, which is exclusive; all-day events end at the next midnight. */
+  end: Date | null;
+  /** Zone named by the event's TZID when it differs from the device's. */
+  timeZone: string | null;
+  repeat: RecurrenceRule | null;
+  /** The event recurs, but its RRULE has no `repeat:` equivalent. */
+  repeatUnsupported: boolean;
+};
+
+/** A content line of an .ics file, after unfolding: `NAME;PARAM=value:value`. */
+type IcsProperty = {
+  name: string;
+  params: Map<string, string>;
+  value: string;
+};
+
+/** `timer` is a one-off quick timer; the others are the phases of a Pomodoro cycle. */
+type QuickTimerPhase = "timer" | "work" | "break" | "longBreak";
+
+type QuickTimerState = {
+  phase: QuickTimerPhase;
+  label: string;
+  startedAt: Date;
+  endsAt: Date;
+};
+
+/** How often a clock subscriber needs updating. */
+type ClockPrecision = "second" | "minute";
+
+type ClockSubscriberOptions = {
+  /** The element showing the time; ticks stop while it is off-screen or its window is hidden. */
+  el?: HTMLElement;
+  /** Asked before every tick, so a subscriber can switch as its display changes. Defaults to seconds. */
+  precision?: () => ClockPrecision;
+};
+
+type ClockSubscriber = {
+  callback: (now: number) => void;
+  el: HTMLElement | null;
+  precision: () => ClockPrecision;
+  visible: boolean;
+  lastTick: number;
+};
+
+/** The parsed form of `` `countdown: 2026-12-31 17:00; Launch; #3370ff` ``. */
+type InlineCountdownSpec = {
+  target: Date;
+  label: string | null;
+  color: string | null;
+};
+
 type CountdownViewOptions = {
   target: Date;
   label: string;
   color: string;
+  expiry: CountdownExpiryMode;
+  expiryMessage: string;
+  mode: CountdownMode;
+  stopwatch: StopwatchState;
+  repeat: RecurrenceRule | null;
+  timeZone: string | null;
+  targetReference: TargetReference | null;
+  sourcePath: string;
+  start: Date | null;
+  progressStyle: ProgressStyle;
+  pausedRemaining: number | null;
+  pinned: boolean;
+  units: CountdownUnitKey[];
+  format: CountdownDisplayFormat;
+  hideLeadingZeros: boolean;
+  style: CountdownBlockStyle;
+  calendar: CountdownCalendar;
   context: CountdownBlockContext | null;
   strings: Translations;
 };
 
+type CountdownUnitKey = "years" | "months" | "weeks" | "days" | "hours" | "minutes" | "seconds";
+
+/** Largest first; a block's `units:` list is always shown in this order. */
+const UNIT_KEYS: CountdownUnitKey[] = ["years", "months", "weeks", "days", "hours", "minutes", "seconds"];
+
+/** Lengths of the fixed-size units; years and months are counted on the calendar. */
+const UNIT_MS: Record<Exclude<CountdownUnitKey, "years" | "months">, number> = {
+  weeks: 7 * 86400000,
+  days: 86400000,
+  hours: 3600000,
+  minutes: 60000,
+  seconds: 1000
+};
+
+/**
+ * - `digits` is the ribbon of boxed numbers,
+ * - `compact` is a single line such as "3d 4h",
+ * - `human` is an approximate phrase such as "in about 3 weeks".
+ */
+type CountdownDisplayFormat = "digits" | "compact" | "human";
+
+/**
+ * - `ribbon` is the original row of coloured boxes,
+ * - `minimal` drops the card and boxes for plain text,
+ * - `flip` draws dark flip-clock cards,
+ * - `hero` is a large, borderless display for dashboards.
+ */
+type CountdownBlockStyle = "ribbon" | "minimal" | "flip" | "hero";
+
+const BLOCK_STYLES: CountdownBlockStyle[] = ["ribbon", "minimal", "flip", "hero"];
+
+type ProgressStyle = "bar" | "ring";
+
+const PROGRESS_STYLES: ProgressStyle[] = ["bar", "ring"];
+
+/**
+ * - `calendar` counts every hour of every day,
+ * - `business` counts only the working hours of working days, as set in the settings.
+ */
+type CountdownCalendar = "calendar" | "business";
+
+const COUNTDOWN_CALENDARS: CountdownCalendar[] = ["calendar", "business"];
+
+/** The working-time settings in the form `countWorkingMs` reads. */
+type WorkingCalendar = {
+  workdays: number[];
+  /** Minutes after midnight. */
+  start: number;
+  end: number;
+  /** YYYY-MM-DD dates that break the weekday rule: `true` is worked, `false` is off. */
+  exceptions: Map<string, boolean>;
+};
+
+/** Step of the "+5" / "−5" toolbar buttons. */
+const ADJUST_STEP_MINUTES = 5;
+
+/** Radius of the progress ring in SVG user units; the viewBox is 40×40. */
+const PROGRESS_RING_RADIUS = 16;
+
+const DISPLAY_FORMATS: CountdownDisplayFormat[] = ["digits", "compact", "human"];
+
 interface CountdownUnit {
-  key: "days" | "hours" | "minutes" | "seconds";
+  key: CountdownUnitKey;
   label: string;
 }
 
-interface Translations {
-  commandInsert: string;
-  insertHeading: string;
-  editHeading: string;
-  targetLabel: string;
-  targetHint: string;
-  labelLabel: string;
-  labelHint: string;
-  colorLabel: string;
-  colorHint: string;
-  modalConfirm: string;
-  modalCancel: string;
-  emptyWarning: string;
-  parseWarning: string;
-  applyError: string;
-  openMarkdownWarning: string;
-  blockMissingTarget: string;
-  blockInvalidTarget: string;
-  toolbarEdit: string;
-  toolbarColour: string;
-  colorPopoverTitle: string;
-  defaultLabel: string;
-  settingsDefaultLabel: string;
-  settingsDefaultDuration: string;
-  settingsDefaultColour: string;
-  unitDays: string;
-  unitHours: string;
-  unitMinutes: string;
-  unitSeconds: string;
-}
-
-const enStrings: Translations = {
-  commandInsert: "Insert countdown timer",
-  insertHeading: "Insert countdown",
-  editHeading: "Edit countdown",
-  targetLabel: "Target time",
-  targetHint: "Pick the end time for the countdown.",
-  labelLabel: "Label",
-  labelHint: "Shown under the digits.",
-  colorLabel: "Colour",
-  colorHint: "Highlight colour for the countdown blocks.",
-  modalConfirm: "Confirm",
-  modalCancel: "Cancel",
-  emptyWarning: "Please choose a target date and time.",
-  parseWarning: "Unable to parse the target date.",
-  applyError: "Failed to apply countdown changes.",
-  openMarkdownWarning: "Open a markdown file to insert the countdown.",
-  blockMissingTarget: "Countdown block needs a target date.",
-  blockInvalidTarget: "Invalid countdown target date.",
-  toolbarEdit: "Edit countdown",
-  toolbarColour: "Change colour",
-  colorPopoverTitle: "Colour",
-  defaultLabel: "Countdown",
-  settingsDefaultLabel: "Default label",
-  settingsDefaultDuration: "Default duration (minutes)",
-  settingsDefaultColour: "Default colour",
-  unitDays: "Days",
-  unitHours: "Hours",
-  unitMinutes: "Minutes",
-  unitSeconds: "Seconds"
-};
-
-const zhStrings: Translations = {
-  commandInsert: "插入倒计时",
-  insertHeading: "插入倒计时",
-  editHeading: "编辑倒计时",
-  targetLabel: "结束时间",
-  targetHint: "选择倒计时结束的日期和时间。",
-  labelLabel: "标签",
-  labelHint: "显示在数字下方，可留空。",
-  colorLabel: "颜色",
-  colorHint: "倒计时块的高亮颜色。",
-  modalConfirm: "确认",
-  modalCancel: "取消",
-  emptyWarning: "请选择结束时间。",
-  parseWarning: "无法解析该时间，请重新选择。",
-  applyError: "应用倒计时时出错。",
-  openMarkdownWarning: "请在 Markdown 文件中插入倒计时。",
-  blockMissingTarget: "倒计时代码块缺少目标时间。",
-  blockInvalidTarget: "倒计时代码块的目标时间无效。",
-  toolbarEdit: "修改倒计时",
-  toolbarColour: "更改颜色",
-  colorPopoverTitle: "颜色",
-  defaultLabel: "倒计时",
-  settingsDefaultLabel: "默认标签",
-  settingsDefaultDuration: "默认时长（分钟）",
-  settingsDefaultColour: "默认颜色",
-  unitDays: "天",
-  unitHours: "时",
-  unitMinutes: "分",
-  unitSeconds: "秒"
+type CountdownUnitElements = {
+  key: CountdownUnitKey;
+  unitEl: HTMLElement;
+  valueEl: HTMLElement;
+  separatorEl: HTMLElement | null;
 };
 
 export default class CountdownTimerPlugin extends Plugin {
   settings: CountdownPluginSettings = DEFAULT_SETTINGS;
+  index = new CountdownIndex(this);
+  clock = new CountdownClock();
+  /** Entry point for other plugins and scripts; see `src/api.ts`. */
+  api: CountdownApi = createCountdownApi(this);
+  quickTimer = new QuickTimer(this);
+  private translations: Translations | null = null;
+  private translationOverrides: TranslationOverrides = {};
+  private workingCalendar: WorkingCalendar | null = null;
+  /** Notes created since the vault loaded, with when, until their placeholders are pinned. */
+  private createdNotes = new Map<string, number>();
 
   async onload() {
     await this.loadSettings();
+    await this.loadTranslationOverrides();
+    this.addChild(this.clock);
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => {
+        if (this.settings.translationFile && file.path === normalizePath(this.settings.translationFile)) {
+          void this.loadTranslationOverrides();
+        }
+      })
+    );
+    // The vault reports every existing file as created while it loads.
+    this.app.workspace.onLayoutReady(() => {
+      this.registerEvent(
+        this.app.vault.on("create", (file) => {
+          if (file instanceof TFile && file.extension === "md" && !this.isTemplatePath(file.path)) {
+            const now = Date.now();
+            this.createdNotes.forEach((created, path) => {
+              if (now - created > TEMPLATE_PIN_WINDOW_MS) {
+                this.createdNotes.delete(path);
+              }
+            });
+            this.createdNotes.set(file.path, now);
+          }
+        })
+      );
+    });
+
+    this.addChild(this.index);
+    this.addChild(new CountdownNotifier(this));
+    this.addChild(this.quickTimer);
+    this.addChild(new CountdownStatusBar(this));
+
+    this.registerView(COUNTDOWN_LIST_VIEW_TYPE, (leaf) => new CountdownListView(leaf, this));
 
     this.registerMarkdownCodeBlockProcessor(
       "countdown",
       (source, el, ctx) => this.renderCountdownBlock(source, el, ctx)
     );
+    this.registerMarkdownCodeBlockProcessor(
+      "countdown-timeline",
+      (source, el, ctx) => this.renderTimelineBlock(source, el, ctx)
+    );
+    this.registerMarkdownPostProcessor((el, ctx) => this.renderInlineCountdowns(el, ctx));
+    this.registerEditorExtension(createInlineCountdownExtension(this));
+    this.registerMarkdownPostProcessor((el, ctx) => this.renderTaskCountdowns(el, ctx));
+    this.registerEditorExtension(createTaskCountdownExtension(this));
 
     this.addCommand({
       id: "insert-countdown-timer",
@@ -187,14 +509,298 @@ export default class CountdownTimerPlugin extends Plugin {
       }
     });
 
-    this.addSettingTab(new CountdownSettingTab(this.app, this));
+    this.addCommand({
+      id: "open-countdown-list",
+      name: this.getStrings().commandOpenList,
+      callback: () => void this.activateListView()
+    });
+
+    this.addCommand({
+      id: "convert-task-to-countdown",
+      name: this.getStrings().commandConvertTask,
+      editorCheckCallback: (checking, editor) => {
+        const line = editor.getCursor().line;
+        const task = parseTaskDueDate(editor.getLine(line));
+        if (!task) {
+          return false;
+        }
+        if (!checking) {
+          this.convertTaskToCountdown(editor, line, task);
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: "export-countdowns-ics",
+      name: this.getStrings().commandExportVault,
+      callback: () => void this.exportCountdowns(this.index.getAll(), ICS_EXPORT_FILE_NAME)
+    });
+
+    this.addCommand({
+      id: "export-note-countdowns-ics",
+      name: this.getStrings().commandExportNote,
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== "md") {
+          return false;
+        }
+        if (!checking) {
+          const entries = this.index.getAll().filter((entry) => entry.path === file.path);
+          void this.exportCountdowns(entries, normalizePath(`${file.parent?.path ?? ""}/${file.basename}.ics`));
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: "import-countdowns-ics",
+      name: this.getStrings().commandImportIcs,
+      editorCallback: (editor) => this.openIcsImport(editor)
+    });
 
+    this.registerQuickTimerCommands();
+    this.addRibbonIcon("timer", this.getStrings().ribbonQuickTimer, (evt) => this.openQuickTimerMenu(evt));
+
+    this.addSettingTab(new CountdownSettingTab(this.app, this));
   }
 
   onunload() {}
 
   getStrings(): Translations {
-    return getTranslations(this.app);
+    this.translations ??= buildTranslations(this.getLocale(), this.translationOverrides);
+    return this.translations;
+  }
+
+  /** Working days, hours and holidays for `calendar: business` blocks. */
+  getWorkingCalendar(): WorkingCalendar {
+    this.workingCalendar ??= buildWorkingCalendar(this.settings);
+    return this.workingCalendar;
+  }
+
+  /** The interface language: the forced setting, or Obsidian's own language. */
+  getLocale() {
+    return this.settings.language || getAppLanguage();
+  }
+
+  /** Locale codes the overrides file adds beyond the built-in ones. */
+  getOverrideLocales() {
+    return Object.keys(this.translationOverrides).filter((code) => code !== "*" && !LOCALES[code]);
+  }
+
+  /**
+   * Reads the translation overrides file. A missing or broken file keeps the
+   * built-in strings and reports the problem once.
+   */
+  async loadTranslationOverrides() {
+    this.translationOverrides = {};
+    this.translations = null;
+    const path = this.settings.translationFile.trim();
+    if (!path) {
+      return;
+    }
+    try {
+      const raw: unknown = JSON.parse(await this.app.vault.adapter.read(normalizePath(path)));
+      this.translationOverrides = parseTranslationOverrides(raw);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(formatString(this.getStrings().translationFileError, { path, error: message }));
+    }
+    this.translations = null;
+  }
+
+  async activateListView() {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(COUNTDOWN_LIST_VIEW_TYPE)[0] ?? null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      if (!leaf) {
+        return;
+      }
+      await leaf.setViewState({ type: COUNTDOWN_LIST_VIEW_TYPE, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+
+  private registerQuickTimerCommands() {
+    const strings = this.getStrings();
+    QUICK_TIMER_MINUTES.forEach((minutes) => {
+      this.addCommand({
+        id: `start-timer-${minutes}`,
+        name: formatString(strings.commandStartTimer, { duration: formatDurationShort(minutes * 60 * 1000, strings) }),
+        callback: () => this.quickTimer.start(minutes)
+      });
+    });
+
+    this.addCommand({
+      id: "start-quick-timer",
+      name: strings.commandStartPreset,
+      callback: () => new QuickTimerPresetModal(this).open()
+    });
+
+    this.addCommand({
+      id: "start-pomodoro",
+      name: strings.commandStartPomodoro,
+      callback: () => this.quickTimer.startPomodoro()
+    });
+
+    this.addCommand({
+      id: "stop-quick-timer",
+      name: strings.commandStopTimer,
+      checkCallback: (checking) => {
+        if (!this.quickTimer.isRunning()) {
+          return false;
+        }
+        if (!checking) {
+          this.quickTimer.stop();
+        }
+        return true;
+      }
+    });
+  }
+
+  /** The colours offered in pickers, in the order set in the settings; the presets when the palette is empty. */
+  getColorPalette() {
+    const palette = this.settings.colorPalette.map((color) => normaliseColor(color)).filter((color): color is string => color !== null);
+    return palette.length ? palette : COLOR_PRESETS;
+  }
+
+  /** Built-in and custom quick timer durations in minutes, shortest first. */
+  getQuickTimerPresets() {
+    return Array.from(new Set([...QUICK_TIMER_MINUTES, ...this.settings.quickPresetMinutes])).sort((a, b) => a - b);
+  }
+
+  /** Shared by the ribbon icon and the status bar item. */
+  openQuickTimerMenu(evt: MouseEvent) {
+    const strings = this.getStrings();
+    const menu = new Menu();
+    this.getQuickTimerPresets().forEach((minutes) => {
+      menu.addItem((item) =>
+        item
+          .setTitle(formatString(strings.commandStartTimer, { duration: formatDurationShort(minutes * 60 * 1000, strings) }))
+          .setIcon("timer")
+          .onClick(() => this.quickTimer.start(minutes))
+      );
+    });
+    menu.addSeparator();
+    menu.addItem((item) =>
+      item
+        .setTitle(strings.commandStartPomodoro)
+        .setIcon("repeat")
+        .onClick(() => this.quickTimer.startPomodoro())
+    );
+
+    if (this.quickTimer.isRunning()) {
+      menu.addSeparator();
+      if (this.quickTimer.isPomodoro()) {
+        menu.addItem((item) =>
+          item
+            .setTitle(strings.quickTimerSkip)
+            .setIcon("skip-forward")
+            .onClick(() => this.quickTimer.skip())
+        );
+      }
+      menu.addItem((item) =>
+        item
+          .setTitle(strings.quickTimerStop)
+          .setIcon("square")
+          .onClick(() => this.quickTimer.stop())
+      );
+    }
+    menu.showAtMouseEvent(evt);
+  }
+
+  /** Inserts a block for a quick timer at the cursor of the active note, if there is one. */
+  insertQuickTimerBlock(state: QuickTimerState) {
+    const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+    if (!editor) {
+      return;
+    }
+
+    const blockLines = serializeCountdownLines({
+      target: state.endsAt.toISOString(),
+      label: state.label,
+      color: this.settings.defaultColor,
+      start: state.startedAt.toISOString()
+    });
+    editor.replaceRange(`\n\n${blockLines.join("\n")}\n\n`, editor.getCursor());
+  }
+
+  /** Appends a line to today's daily note, creating the note (and its folder) when missing. */
+  async appendToDailyNote(line: string) {
+    const { vault } = this.app;
+    const { folder, format } = getDailyNoteSettings(this.app);
+    const name = formatMoment(new Date(), format);
+    const path = normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+
+    const file = vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      await vault.process(file, (content) => (!content || content.endsWith("\n") ? content : `${content}\n`) + `${line}\n`);
+      return;
+    }
+
+    await createFolderFor(vault, path);
+    await vault.create(path, `${line}\n`);
+  }
+
+  /** Writes the countdowns to an .ics file in the vault, replacing an earlier export at the same path. */
+  async exportCountdowns(entries: IndexedCountdown[], path: string) {
+    const strings = this.getStrings();
+    if (!entries.length) {
+      new Notice(strings.exportEmpty);
+      return;
+    }
+
+    const { vault } = this.app;
+    const content = serializeIcsCalendar(entries, new Date());
+    const file = vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      await vault.modify(file, content);
+    } else {
+      await vault.create(path, content);
+    }
+    new Notice(formatString(strings.exportDone, { count: String(entries.length), path }));
+  }
+
+  /** Picks an .ics file from the vault, then the events in it to insert at the cursor. */
+  private openIcsImport(editor: Editor) {
+    const strings = this.getStrings();
+    const files = this.app.vault.getFiles().filter((file) => file.extension.toLowerCase() === "ics");
+    if (!files.length) {
+      new Notice(strings.importNoFiles);
+      return;
+    }
+
+    new VaultFileSuggestModal(this.app, files, strings.importChooseFile, async (file) => {
+      const events = parseIcsEvents(await this.app.vault.read(file));
+      if (!events.length) {
+        new Notice(formatString(strings.importNoEvents, { file: file.name }));
+        return;
+      }
+      new IcsImportModal(this, events, (chosen) => {
+        const blocks = chosen.map((event) =>
+          serializeCountdownLines({
+            target: event.start.toISOString(),
+            label: event.summary || this.getDefaultLabel(strings),
+            color: this.settings.defaultColor,
+            repeat: event.repeat,
+            timeZone: event.timeZone
+          }).join("\n")
+        );
+        editor.replaceRange(`\n\n${blocks.join("\n\n")}\n\n`, editor.getCursor());
+        new Notice(formatString(strings.importDone, { count: String(chosen.length) }));
+      }).open();
+    }).open();
+  }
+
+  async openCountdownLocation(path: string, line: number) {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      return;
+    }
+
+    const leaf = this.app.workspace.getLeaf(false);
+    await leaf.openFile(file, { eState: { line } });
   }
 
   private openInsertModal(editor: Editor) {
@@ -208,15 +814,24 @@ export default class CountdownTimerPlugin extends Plugin {
       initialTarget: defaultTarget,
       initialLabel: this.getDefaultLabel(strings),
       initialColor: this.settings.defaultColor,
-      onSubmit: ({ target, label, color }) => {
+      initialExpiry: DEFAULT_EXPIRY_MODE,
+      initialExpiryMessage: "",
+      initialMode: DEFAULT_MODE,
+      initialRepeat: null,
+      initialTimeZone: null,
+      initialStart: now,
+      onSubmit: (result) => {
         const view = this.app.workspace.getActiveViewOfType(MarkdownView);
         if (!view) {
           new Notice(strings.openMarkdownWarning);
           return;
         }
 
-        const iso = target.toISOString();
-        const blockLines = serializeCountdownLines({ target: iso, label, color });
+        const blockLines = serializeCountdownLines({
+          ...result,
+          target: result.target.toISOString(),
+          start: result.start?.toISOString() ?? null
+        });
         const snippet = `\n\n${blockLines.join("\n")}\n\n`;
         const cursor = editor.getCursor();
         editor.replaceRange(snippet, cursor);
@@ -224,17 +839,14 @@ export default class CountdownTimerPlugin extends Plugin {
     }).open();
   }
 
-  private getDefaultLabel(strings: Translations) {
+  getDefaultLabel(strings: Translations) {
     const custom = this.settings.defaultLabel?.trim();
     if (!custom) {
       return strings.defaultLabel;
     }
 
-    if (strings === enStrings && custom === zhStrings.defaultLabel) {
-      return strings.defaultLabel;
-    }
-
-    if (strings === zhStrings && custom === enStrings.defaultLabel) {
+    // A stored built-in label from another language follows the current one.
+    if (Object.values(LOCALES).some((locale) => locale.strings.defaultLabel === custom)) {
       return strings.defaultLabel;
     }
 
@@ -244,13 +856,32 @@ export default class CountdownTimerPlugin extends Plugin {
   private renderCountdownBlock(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) {
     const strings = this.getStrings();
     const trimmedSource = source.trim();
-    const parsed = parseCountdownSource(source, this.getDefaultLabel(strings), this.settings.defaultColor);
-    if (!parsed.target) {
+    const parsed = parseCountdownSource(
+      source,
+      this.getDefaultLabel(strings),
+      this.settings.defaultColor,
+      (reference) => this.resolveTargetReference(reference, ctx.sourcePath)?.value ?? null,
+      this.getTemplateBase(ctx.sourcePath)
+    );
+    if (!parsed.target && parsed.targetReference && parsed.mode !== "stopwatch") {
+      const note = parsed.targetReference.link ?? ctx.sourcePath.replace(/\.md$/, "").split("/").pop() ?? "";
+      el.createEl("p", {
+        text: formatString(strings.blockMissingProperty, { property: parsed.targetReference.property, note })
+      });
+      return;
+    }
+
+    if (!parsed.target && parsed.mode !== "stopwatch") {
       const message = trimmedSource.length ? strings.blockInvalidTarget : strings.blockMissingTarget;
       el.createEl("p", { text: message });
       return;
     }
 
+    if (parsed.fields.has("repeat") && !parsed.repeat) {
+      el.createEl("p", { text: strings.repeatInvalid });
+      return;
+    }
+
     const section = ctx.getSectionInfo(el);
     const blockContext = section
       ? ({
@@ -259,87 +890,511 @@ export default class CountdownTimerPlugin extends Plugin {
         } satisfies CountdownBlockContext)
       : null;
 
+    // Natural-language targets ("in 3h", "next Friday") are pinned to the moment they
+    // were first rendered; the rewrite re-renders the block with the absolute timestamp.
+    // Templates keep them as written, like the index does with template placeholders.
+    const pinRelative = (parsed.targetIsRelative || parsed.startIsRelative) && !this.isTemplatePath(ctx.sourcePath);
+    if (parsed.target && pinRelative && blockContext) {
+      void this.updateCountdownBlock(blockContext, { ...parsed, target: parsed.target });
+    }
+
     const container = el.createDiv({ cls: "obsidian-countdown" });
     const countdown = new CountdownView(this, container, {
-      target: parsed.target,
+      // Stopwatches have no target; the render time stands in so the view always has a date.
+      target: parsed.target ?? new Date(),
       label: parsed.label,
       color: parsed.color,
+      expiry: parsed.expiry,
+      expiryMessage: parsed.expiryMessage,
+      mode: parsed.mode,
+      stopwatch: parsed.stopwatch,
+      repeat: parsed.repeat,
+      timeZone: parsed.timeZone,
+      targetReference: parsed.targetReference,
+      sourcePath: ctx.sourcePath,
+      start: parsed.start,
+      progressStyle: parsed.progressStyle,
+      pausedRemaining: parsed.pausedRemaining,
+      pinned: parsed.pinned,
+      units: parsed.units ?? this.settings.defaultUnits,
+      format: parsed.format ?? this.settings.defaultFormat,
+      hideLeadingZeros: parsed.hideLeadingZeros ?? this.settings.hideLeadingZeros,
+      style: parsed.style ?? this.settings.defaultStyle,
+      calendar: parsed.calendar ?? "calendar",
       context: blockContext,
       strings
     });
     ctx.addChild(countdown);
   }
 
-  async updateCountdownBlock(context: CountdownBlockContext, data: CountdownBlockData) {
-    const file = this.app.vault.getAbstractFileByPath(context.sourcePath);
-    if (!(file instanceof TFile)) {
-      new Notice(this.getStrings().applyError);
+  private renderTimelineBlock(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+    const strings = this.getStrings();
+    const parsed = parseTimelineSource(source);
+    if (parsed.invalidLine !== null) {
+      el.createEl("p", { text: formatString(strings.timelineInvalidLine, { line: parsed.invalidLine }) });
+      return;
+    }
+    if (!parsed.milestones.length) {
+      el.createEl("p", { text: strings.timelineEmpty });
       return;
     }
 
-    const { lineStart, lineEnd } = context.section;
-    const iso = data.target.toISOString();
-    const blockLines = serializeCountdownLines({ target: iso, label: data.label, color: data.color });
+    const section = ctx.getSectionInfo(el);
+    const context = section ? ({ sourcePath: ctx.sourcePath, section } satisfies CountdownBlockContext) : null;
+    const container = el.createDiv({ cls: "obsidian-countdown-timeline" });
+    ctx.addChild(new CountdownTimelineView(this, container, parsed.layout, parsed.milestones, context, ctx.sourcePath));
+  }
 
-    await this.app.vault.process(file, (content) => {
-      const lines = content.split("\n");
-      lines.splice(lineStart, lineEnd - lineStart + 1, ...blockLines);
-      return lines.join("\n");
+  /** Rewrites one milestone line of a `countdown-timeline` block, keeping its list marker. */
+  async updateTimelineMilestone(context: CountdownBlockContext, milestone: TimelineMilestone, spec: InlineCountdownSpec) {
+    await this.rewriteSection(context.sourcePath, context.section, (lines) => {
+      const lineIndex = 1 + milestone.line;
+      const marker = lines[lineIndex]?.match(TIMELINE_MILESTONE_PATTERN)?.[1];
+      if (marker === undefined) {
+        return null;
+      }
+      const updated = [...lines];
+      updated[lineIndex] = `${marker}${formatCountdownSpec(spec)}`;
+      return updated;
     });
   }
 
-  async loadSettings() {
-    const stored = await this.loadData();
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, stored ?? {});
+  private renderInlineCountdowns(el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+    const codeEls = el.findAll("code").filter((codeEl) => !codeEl.closest("pre"));
+    const seen = new Map<string, number>();
+    codeEls.forEach((codeEl) => {
+      const source = codeEl.textContent ?? "";
+      const spec = parseInlineCountdown(source);
+      if (!spec) {
+        return;
+      }
+      // Identical inline sources in one section are told apart by their order.
+      const occurrence = seen.get(source) ?? 0;
+      seen.set(source, occurrence + 1);
+      const pillEl = createInlineCountdownEl(this, spec);
+      codeEl.replaceWith(pillEl);
+      ctx.addChild(new InlineCountdownChild(this, pillEl, spec, source, () => ctx.getSectionInfo(el), ctx.sourcePath, occurrence));
+    });
+  }
 
-    if (!stored || stored.defaultLabel === undefined) {
-      this.settings.defaultLabel = this.getStrings().defaultLabel;
+  private renderTaskCountdowns(el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+    if (!this.settings.taskCountdowns) {
+      return;
     }
 
-    if (!stored || stored.insertHotkey === undefined) {
-      this.settings.insertHotkey = DEFAULT_SETTINGS.insertHotkey;
-    }
+    el.findAll("li.task-list-item").forEach((itemEl) => {
+      // Nested lists belong to their own items, so only this item's own text is read.
+      const ownNodes = Array.from(itemEl.childNodes).filter(
+        (node) => !(node instanceof HTMLElement && (node.tagName === "UL" || node.tagName === "OL"))
+      );
+      const status = itemEl.getAttribute("data-task") || " ";
+      const text = ownNodes.map((node) => node.textContent ?? "").join("");
+      const task = parseTaskDueDate(`- [${status}] ${text}`);
+      if (!task || task.done) {
+        return;
+      }
+
+      const pillEl = createInlineCountdownEl(this, { target: task.due, label: null, color: null }, false);
+      pillEl.addClass(TASK_COUNTDOWN_CLASS);
+      const lastOwnNode = ownNodes[ownNodes.length - 1];
+      itemEl.insertBefore(pillEl, lastOwnNode ? lastOwnNode.nextSibling : itemEl.firstChild);
+      ctx.addChild(new TaskCountdownChild(this, pillEl, task.due));
+    });
   }
 
-  async saveSettings() {
-    await this.saveData(this.settings);
+  private convertTaskToCountdown(editor: Editor, line: number, task: TaskDueDate) {
+    const strings = this.getStrings();
+    const blockLines = serializeCountdownLines({
+      target: task.due.toISOString(),
+      label: task.text || this.getDefaultLabel(strings),
+      color: this.settings.defaultColor
+    });
+    const text = editor.getLine(line);
+    // Keeping the task's indentation keeps a nested task's block inside its parent list item.
+    const indent = /^\s*/.exec(text)?.[0] ?? "";
+    const block = blockLines.map((blockLine) => indent + blockLine).join("\n");
+    editor.replaceRange(block, { line, ch: 0 }, { line, ch: text.length });
   }
-}
 
-class CountdownModal extends Modal {
-  private plugin: CountdownTimerPlugin;
-  private options: CountdownModalOptions;
-  private strings: Translations;
-  private targetValue: string;
-  private labelValue: string;
-  private colorValue: string;
+  /**
+   * Opens the target/label/colour edit modal used by inline countdowns and timeline milestones.
+   * Values left at their defaults come back as `null` so they stay out of the source.
+   */
+  openInlineEditModal(
+    spec: InlineCountdownSpec,
+    onSubmit: (spec: InlineCountdownSpec) => Promise<void> | void,
+    defaultColor = this.settings.defaultColor
+  ) {
+    const strings = this.getStrings();
+    new CountdownModal(this.app, this, {
+      heading: strings.editHeading,
+      strings,
+      initialTarget: spec.target,
+      initialLabel: spec.label ?? "",
+      initialColor: spec.color ?? defaultColor,
+      initialExpiry: DEFAULT_EXPIRY_MODE,
+      initialExpiryMessage: "",
+      initialMode: DEFAULT_MODE,
+      initialRepeat: null,
+      initialTimeZone: null,
+      initialStart: null,
+      inline: true,
+      onSubmit: (result) => {
+        const label = result.label === this.getDefaultLabel(strings) ? null : result.label;
+        const color = colorsEqual(result.color, defaultColor) ? null : result.color;
+        return onSubmit({ target: result.target, label, color });
+      }
+    }).open();
+  }
 
-  constructor(app: App, plugin: CountdownTimerPlugin, options: CountdownModalOptions) {
-    super(app);
-    this.plugin = plugin;
-    this.options = options;
-    this.strings = options.strings;
+  async updateInlineCountdown(
+    sourcePath: string,
+    section: MarkdownSectionInformation,
+    previous: string,
+    occurrence: number,
+    next: string
+  ) {
+    await this.rewriteSection(sourcePath, section, (lines) => {
+      const sectionText = lines.join("\n");
+      const needle = `\`${previous}\``;
+      let index = -1;
+      for (let seen = 0; seen <= occurrence; seen++) {
+        index = sectionText.indexOf(needle, index + 1);
+        if (index < 0) {
+          return null;
+        }
+      }
+      const updated = sectionText.slice(0, index) + `\`${next}\`` + sectionText.slice(index + needle.length);
+      return updated.split("\n");
+    });
+  }
 
-    this.targetValue = toDateTimeLocalInput(options.initialTarget);
-    this.labelValue = options.initialLabel;
-    this.colorValue = normaliseColor(options.initialColor) ?? plugin.settings.defaultColor;
+  async updateCountdownBlock(context: CountdownBlockContext, data: CountdownBlockData) {
+    // A referenced target lives in frontmatter, so the block keeps pointing at it.
+    const target = data.targetReference ? formatTargetReference(data.targetReference) : data.target.toISOString();
+    const blockData = {
+      target,
+      label: data.label,
+      color: data.color,
+      expiry: data.expiry,
+      expiryMessage: data.expiryMessage,
+      mode: data.mode,
+      stopwatch: data.stopwatch,
+      repeat: data.repeat,
+      timeZone: data.timeZone,
+      start: data.start?.toISOString() ?? null,
+      pausedRemaining: data.pausedRemaining,
+      pinned: data.pinned
+    };
+
+    await this.rewriteSection(context.sourcePath, context.section, (lines) => {
+      // Keep keys written by hand or by newer versions of the plugin.
+      const existingBody = lines.slice(1, -1).join("\n");
+      const unknownFields = getUnknownBlockFields(parseBlockFields(existingBody));
+      return serializeCountdownLines(blockData, unknownFields);
+    });
   }
 
-  onOpen() {
+  /**
+   * Replaces the lines a rendered section came from. `section` is only a hint: the
+   * lines are found again by their render-time text, nearest their old position,
+   * so edits above the section, another pane or a sync do not shift the rewrite.
+   * If the section no longer exists as rendered, nothing is written and `false`
+   * is returned. `rewrite` gets the section's lines and returns the replacement,
+   * or `null` to leave them alone.
+   *
+   * Notes open in an editor are changed through it, so the edit joins undo
+   * history and does not race the editor's own save. On success `section` is
+   * moved to the rewritten lines, so a second edit before the re-render still
+   * finds them.
+   */
+  async rewriteSection(
+    sourcePath: string,
+    section: MarkdownSectionInformation,
+    rewrite: (lines: string[]) => string[] | null
+  ): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(sourcePath);
+    if (!(file instanceof TFile)) {
+      new Notice(this.getStrings().applyError);
+      return false;
+    }
+
+    const expected = section.text.split("\n").slice(section.lineStart, section.lineEnd + 1);
+    const replacement = rewrite(expected);
+    if (!replacement) {
+      return true;
+    }
+    const splice = (content: string) => {
+      const lines = content.split("\n");
+      const start = findLines(lines, expected, section.lineStart);
+      if (start === null) {
+        return null;
+      }
+      lines.splice(start, expected.length, ...replacement);
+      return { text: lines.join("\n"), start };
+    };
+
+    let rewritten: { text: string; start: number } | null = null;
+    const editor = this.getOpenEditor(file);
+    if (editor) {
+      const current = editor.getValue();
+      rewritten = splice(current);
+      if (rewritten) {
+        const end = rewritten.start + expected.length - 1;
+        const endCh = current.split("\n")[end].length;
+        editor.replaceRange(replacement.join("\n"), { line: rewritten.start, ch: 0 }, { line: end, ch: endCh });
+      }
+    } else {
+      await this.app.vault.process(file, (content) => {
+        rewritten = splice(content);
+        return rewritten?.text ?? content;
+      });
+    }
+
+    if (!rewritten) {
+      new Notice(this.getStrings().blockChanged);
+      return false;
+    }
+    section.text = rewritten.text;
+    section.lineStart = rewritten.start;
+    section.lineEnd = rewritten.start + replacement.length - 1;
+    return true;
+  }
+
+  /** The editor of a Markdown view showing `file`, preferring the active one. */
+  getOpenEditor(file: TFile): Editor | null {
+    const active = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (active?.file === file) {
+      return active.editor;
+    }
+    const leaf = this.app.workspace
+      .getLeavesOfType("markdown")
+      .find((candidate) => candidate.view instanceof MarkdownView && candidate.view.file === file);
+    return leaf?.view instanceof MarkdownView ? leaf.view.editor : null;
+  }
+
+  /** Whether `path` lies in the template folder of the Templates core plugin or of Templater. */
+  isTemplatePath(path: string) {
+    return getTemplateFolders(this.app).some((folder) => path.startsWith(`${folder}/`));
+  }
+
+  /**
+   * The moment `+14d@18:00` placeholders count from: the date in a daily note's
+   * name, or else when a new note was created. Templates, and placeholders typed
+   * into older notes, preview against now.
+   */
+  getTemplateBase(path: string) {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile) || this.isTemplatePath(path)) {
+      return new Date();
+    }
+    return getDailyNoteDate(this.app, file) ?? new Date(this.createdNotes.has(path) ? file.stat.ctime : Date.now());
+  }
+
+  /**
+   * Replaces the template placeholders in a newly created note's countdown blocks with
+   * absolute timestamps, once. Placeholders in older notes are left as written.
+   */
+  async resolveTemplatePlaceholders(file: TFile) {
+    const created = this.createdNotes.get(file.path);
+    const base = this.getTemplateBase(file.path);
+    this.createdNotes.delete(file.path);
+    if (created === undefined || Date.now() - created > TEMPLATE_PIN_WINDOW_MS) {
+      return;
+    }
+
+    const editor = this.getOpenEditor(file);
+    if (!editor) {
+      await this.app.vault.process(file, (content) => pinTemplatePlaceholders(content, base));
+      return;
+    }
+    // Pinning never adds or removes lines, so only the changed ones are replaced.
+    const lines = editor.getValue().split("\n");
+    pinTemplatePlaceholders(lines.join("\n"), base)
+      .split("\n")
+      .forEach((line, index) => {
+        if (line !== lines[index]) {
+          editor.replaceRange(line, { line: index, ch: 0 }, { line: index, ch: lines[index].length });
+        }
+      });
+  }
+
+  /** Finds the note a target reference points at and reads the property from its frontmatter. */
+  resolveTargetReference(reference: TargetReference, sourcePath: string): { file: TFile; value: string | null } | null {
+    const { metadataCache, vault } = this.app;
+    const file = reference.link
+      ? metadataCache.getFirstLinkpathDest(reference.link, sourcePath)
+      : vault.getAbstractFileByPath(sourcePath);
+    if (!(file instanceof TFile)) {
+      return null;
+    }
+
+    const raw: unknown = metadataCache.getFileCache(file)?.frontmatter?.[reference.property];
+    const value = typeof raw === "string" || typeof raw === "number" ? String(raw) : null;
+    return { file, value };
+  }
+
+  async updateTargetReference(reference: TargetReference, sourcePath: string, target: Date, timeZone: string | null) {
+    const resolved = this.resolveTargetReference(reference, sourcePath);
+    if (!resolved) {
+      new Notice(this.getStrings().applyError);
+      return;
+    }
+
+    await this.app.fileManager.processFrontMatter(resolved.file, (frontmatter: Record<string, unknown>) => {
+      const previous = frontmatter[reference.property];
+      const value = toDateTimeLocalInput(target, timeZone);
+      // Date-only properties stay date-only as long as the new target is at midnight.
+      const dateOnly = typeof previous === "string" && DATE_ONLY_PATTERN.test(previous) && value.endsWith("T00:00");
+      frontmatter[reference.property] = dateOnly ? value.slice(0, 10) : value;
+    });
+  }
+
+  async loadSettings() {
+    const stored = await this.loadData();
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, stored ?? {});
+
+    if (!stored || stored.defaultLabel === undefined) {
+      this.settings.defaultLabel = this.getStrings().defaultLabel;
+    }
+  }
+
+  async saveSettings() {
+    this.translations = null;
+    this.workingCalendar = null;
+    await this.saveData(this.settings);
+  }
+}
+
+class CountdownModal extends Modal {
+  private plugin: CountdownTimerPlugin;
+  private options: CountdownModalOptions;
+  private strings: Translations;
+  private targetValue: string;
+  private startValue: string;
+  private timeZoneValue: string | null;
+  private labelValue: string;
+  private colorValue: string;
+  private expiryValue: CountdownExpiryMode;
+  private expiryMessageValue: string;
+  private modeValue: CountdownMode;
+  private repeatKind: RecurrenceKind | "none";
+  private repeatWeekdays: number[];
+  private repeatMonthDay: number | "last" | null;
+  private repeatCronValue: string;
+  private modeSetting: Setting | null = null;
+  private targetSetting: Setting | null = null;
+  private targetPreviewEl: HTMLElement | null = null;
+  private timeZoneSetting: Setting | null = null;
+  private startSetting: Setting | null = null;
+  private repeatSetting: Setting | null = null;
+  private repeatWeekdaysSetting: Setting | null = null;
+  private repeatMonthDaySetting: Setting | null = null;
+  private repeatCronSetting: Setting | null = null;
+  private expirySetting: Setting | null = null;
+  private expiryMessageSetting: Setting | null = null;
+
+  constructor(app: App, plugin: CountdownTimerPlugin, options: CountdownModalOptions) {
+    super(app);
+    this.plugin = plugin;
+    this.options = options;
+    this.strings = options.strings;
+
+    this.timeZoneValue = options.initialTimeZone;
+    this.targetValue = toDateTimeLocalInput(options.initialTarget, options.initialTimeZone).replace("T", " ");
+    this.startValue = options.initialStart
+      ? toDateTimeLocalInput(options.initialStart, options.initialTimeZone).replace("T", " ")
+      : "";
+    this.labelValue = options.initialLabel;
+    this.colorValue = normaliseColor(options.initialColor) ?? plugin.settings.defaultColor;
+    this.expiryValue = options.initialExpiry;
+    this.expiryMessageValue = options.initialExpiryMessage;
+    this.modeValue = options.initialMode;
+
+    const repeat = options.initialRepeat;
+    this.repeatKind = repeat?.kind ?? "none";
+    this.repeatWeekdays = repeat?.kind === "weekly" ? [...repeat.weekdays] : [];
+    this.repeatMonthDay = repeat?.kind === "monthly" ? repeat.day : null;
+    this.repeatCronValue = repeat?.kind === "cron" ? repeat.expression : "";
+  }
+
+  onOpen() {
     const { contentEl } = this;
     contentEl.empty();
     contentEl.createEl("h2", { text: this.options.heading });
 
-    new Setting(contentEl)
+    this.modeSetting = new Setting(contentEl)
+      .setName(this.strings.modeLabel)
+      .setDesc(this.strings.modeHint)
+      .addDropdown((dropdown) => {
+        dropdown.addOption("countdown", this.strings.modeCountdown);
+        dropdown.addOption("since", this.strings.modeSince);
+        dropdown.addOption("stopwatch", this.strings.modeStopwatch);
+        dropdown.setValue(this.modeValue);
+        dropdown.onChange((value) => {
+          this.modeValue = normaliseMode(value) ?? DEFAULT_MODE;
+          this.updateVisibility();
+        });
+      });
+
+    // The free-text field accepts natural language; the picker mirrors it and writes picks back as text.
+    let targetText: TextComponent | null = null;
+    let targetPicker: TextComponent | null = null;
+    this.targetSetting = new Setting(contentEl)
       .setName(this.strings.targetLabel)
       .setDesc(this.strings.targetHint)
       .addText((text) => {
+        targetText = text;
         text.setValue(this.targetValue);
-        text.inputEl.type = "datetime-local";
-        text.inputEl.onchange = () => {
-          this.targetValue = text.getValue();
+        text.onChange((value) => {
+          this.targetValue = value;
+          this.updateTargetPreview();
+          const resolved = parseTargetInput(value, new Date(), this.timeZoneValue);
+          if (resolved) {
+            targetPicker?.setValue(toDateTimeLocalInput(resolved.date, this.timeZoneValue));
+          }
+        });
+      })
+      .addText((picker) => {
+        targetPicker = picker;
+        picker.inputEl.type = "datetime-local";
+        picker.setValue(toDateTimeLocalInput(this.options.initialTarget, this.timeZoneValue));
+        picker.inputEl.onchange = () => {
+          this.targetValue = picker.getValue().replace("T", " ");
+          targetText?.setValue(this.targetValue);
+          this.updateTargetPreview();
         };
       });
+    this.targetPreviewEl = this.targetSetting.descEl.createDiv({ cls: "obsidian-countdown__target-preview" });
+    this.updateTargetPreview();
+
+    // The typed wall-clock time is read in the chosen zone, so switching zones keeps the text.
+    this.timeZoneSetting = new Setting(contentEl)
+      .setName(this.strings.timeZoneLabel)
+      .setDesc(this.strings.timeZoneHint)
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", formatString(this.strings.timeZoneDevice, { zone: getLocalTimeZone() }));
+        const zones = getSupportedTimeZones();
+        if (this.timeZoneValue && !zones.includes(this.timeZoneValue)) {
+          zones.unshift(this.timeZoneValue);
+        }
+        zones.forEach((zone) => dropdown.addOption(zone, zone));
+        dropdown.setValue(this.timeZoneValue ?? "");
+        dropdown.onChange((value) => {
+          this.timeZoneValue = value || null;
+          this.updateTargetPreview();
+        });
+      });
+
+    this.startSetting = new Setting(contentEl)
+      .setName(this.strings.startLabel)
+      .setDesc(this.strings.startHint)
+      .addText((text) => {
+        text.setValue(this.startValue);
+        text.onChange((value) => (this.startValue = value));
+      });
+
+    this.renderRepeatSettings(contentEl);
 
     new Setting(contentEl)
       .setName(this.strings.labelLabel)
@@ -350,16 +1405,47 @@ class CountdownModal extends Modal {
         text.onChange((value) => (this.labelValue = value));
       });
 
-    new Setting(contentEl)
-      .setName(this.strings.colorLabel)
-      .setDesc(this.strings.colorHint)
-      .addColorPicker((picker) => {
-        picker.setValue(this.colorValue);
-        picker.onChange((value) => {
-          this.colorValue = normaliseColor(value) ?? this.plugin.settings.defaultColor;
+    const colorSetting = new Setting(contentEl).setName(this.strings.colorLabel).setDesc(this.strings.colorHint);
+    const markColor = renderColorSwatches(colorSetting.controlEl, this.plugin.getColorPalette(), (color) => {
+      this.colorValue = color;
+      markColor(color);
+    });
+    colorSetting.addColorPicker((picker) => {
+      const pickerValue = toColorPickerValue(this.colorValue);
+      if (pickerValue) {
+        picker.setValue(pickerValue);
+      }
+      picker.onChange((value) => {
+        this.colorValue = normaliseColor(value) ?? this.plugin.settings.defaultColor;
+        markColor(this.colorValue);
+      });
+    });
+    markColor(this.colorValue);
+
+    this.expirySetting = new Setting(contentEl)
+      .setName(this.strings.expiryLabel)
+      .setDesc(this.strings.expiryHint)
+      .addDropdown((dropdown) => {
+        dropdown.addOption("freeze", this.strings.expiryFreeze);
+        dropdown.addOption("elapsed", this.strings.expiryElapsed);
+        dropdown.addOption("message", this.strings.expiryMessage);
+        dropdown.setValue(this.expiryValue);
+        dropdown.onChange((value) => {
+          this.expiryValue = normaliseExpiryMode(value) ?? DEFAULT_EXPIRY_MODE;
+          this.updateVisibility();
         });
       });
 
+    this.expiryMessageSetting = new Setting(contentEl)
+      .setName(this.strings.expiryMessageLabel)
+      .setDesc(this.strings.expiryMessageHint)
+      .addText((text) => {
+        text.setPlaceholder(this.strings.expiredCaption);
+        text.setValue(this.expiryMessageValue);
+        text.onChange((value) => (this.expiryMessageValue = value));
+      });
+    this.updateVisibility();
+
     const actionSetting = new Setting(contentEl);
     actionSetting.addButton((btn) => {
       btn.setButtonText(this.strings.modalConfirm).setCta().onClick(() => void this.handleSubmit());
@@ -369,23 +1455,159 @@ class CountdownModal extends Modal {
     });
   }
 
-  private async handleSubmit() {
-    if (!this.targetValue) {
-      new Notice(this.strings.emptyWarning);
+  private updateTargetPreview() {
+    if (!this.targetPreviewEl) {
       return;
     }
+    const resolved = parseTargetInput(this.targetValue, new Date(), this.timeZoneValue);
+    const locale = this.plugin.getLocale();
+    this.targetPreviewEl.setText(
+      resolved
+        ? formatString(this.strings.targetPreview, {
+            date: formatZonedTargets(resolved.date, this.timeZoneValue, locale, this.strings)
+          })
+        : this.targetValue.trim()
+          ? this.strings.parseWarning
+          : ""
+    );
+    this.targetPreviewEl.toggleClass("is-invalid", !resolved);
+  }
 
-    const parsed = parseTargetDate(this.targetValue);
-    if (!parsed) {
-      new Notice(this.strings.parseWarning);
-      return;
+  private renderRepeatSettings(contentEl: HTMLElement) {
+    this.repeatSetting = new Setting(contentEl)
+      .setName(this.strings.repeatLabel)
+      .setDesc(this.strings.repeatHint)
+      .addDropdown((dropdown) => {
+        dropdown.addOption("none", this.strings.repeatNone);
+        dropdown.addOption("daily", this.strings.repeatDaily);
+        dropdown.addOption("weekly", this.strings.repeatWeekly);
+        dropdown.addOption("monthly", this.strings.repeatMonthly);
+        dropdown.addOption("cron", this.strings.repeatCron);
+        dropdown.setValue(this.repeatKind);
+        dropdown.onChange((value) => {
+          this.repeatKind = value as RecurrenceKind | "none";
+          this.updateVisibility();
+        });
+      });
+
+    this.repeatWeekdaysSetting = new Setting(contentEl).setName(this.strings.repeatWeekdaysLabel);
+    const weekdayFormat = new Intl.DateTimeFormat(this.plugin.getLocale(), { weekday: "short" });
+    const weekdays = this.repeatWeekdaysSetting.controlEl.createDiv({ cls: "obsidian-countdown__weekday-options" });
+    // 2023-01-01 was a Sunday, so day N of that week has weekday index N.
+    [1, 2, 3, 4, 5, 6, 0].forEach((weekday) => {
+      const button = weekdays.createEl("button", {
+        cls: "obsidian-countdown__weekday-option",
+        text: weekdayFormat.format(new Date(2023, 0, 1 + weekday))
+      });
+      button.setAttr("type", "button");
+      button.toggleClass("is-selected", this.repeatWeekdays.includes(weekday));
+      button.onclick = (evt) => {
+        evt.preventDefault();
+        const selected = !this.repeatWeekdays.includes(weekday);
+        this.repeatWeekdays = selected
+          ? [...this.repeatWeekdays, weekday].sort((a, b) => a - b)
+          : this.repeatWeekdays.filter((day) => day !== weekday);
+        button.toggleClass("is-selected", selected);
+      };
+    });
+
+    this.repeatMonthDaySetting = new Setting(contentEl)
+      .setName(this.strings.repeatMonthDayLabel)
+      .addDropdown((dropdown) => {
+        for (let day = 1; day <= 31; day++) {
+          dropdown.addOption(String(day), String(day));
+        }
+        dropdown.addOption("last", this.strings.repeatMonthLast);
+        const initialDay = this.repeatMonthDay ?? this.options.initialTarget.getDate();
+        dropdown.setValue(String(initialDay));
+        dropdown.onChange((value) => {
+          this.repeatMonthDay = value === "last" ? "last" : Number(value);
+        });
+      });
+
+    this.repeatCronSetting = new Setting(contentEl)
+      .setName(this.strings.repeatCronLabel)
+      .setDesc(this.strings.repeatCronHint)
+      .addText((text) => {
+        text.setPlaceholder("0 9 * * 1-5");
+        text.setValue(this.repeatCronValue);
+        text.onChange((value) => (this.repeatCronValue = value));
+      });
+  }
+
+  private buildRepeatRule(target: Date): RecurrenceRule | null | undefined {
+    switch (this.repeatKind) {
+      case "daily":
+        return { kind: "daily" };
+      case "weekly":
+        return { kind: "weekly", weekdays: this.repeatWeekdays.length ? this.repeatWeekdays : [target.getDay()] };
+      case "monthly":
+        return { kind: "monthly", day: this.repeatMonthDay ?? target.getDate() };
+      case "cron":
+        // `undefined` marks an invalid expression so the caller can warn instead of dropping the rule.
+        return parseRecurrenceRule(`cron ${this.repeatCronValue}`) ?? undefined;
+      default:
+        return null;
+    }
+  }
+
+  private updateVisibility() {
+    const inline = this.options.inline ?? false;
+    const isCountdown = this.modeValue === "countdown" && !inline;
+    this.modeSetting?.settingEl.toggle(!inline);
+    this.repeatSetting?.settingEl.toggle(isCountdown);
+    this.repeatWeekdaysSetting?.settingEl.toggle(isCountdown && this.repeatKind === "weekly");
+    this.repeatMonthDaySetting?.settingEl.toggle(isCountdown && this.repeatKind === "monthly");
+    this.repeatCronSetting?.settingEl.toggle(isCountdown && this.repeatKind === "cron");
+    this.targetSetting?.settingEl.toggle(this.modeValue !== "stopwatch");
+    this.timeZoneSetting?.settingEl.toggle(this.modeValue !== "stopwatch" && !inline);
+    this.startSetting?.settingEl.toggle(isCountdown);
+    this.expirySetting?.settingEl.toggle(isCountdown);
+    this.expiryMessageSetting?.settingEl.toggle(isCountdown && this.expiryValue === "message");
+  }
+
+  private async handleSubmit() {
+    const mode = this.modeValue;
+    let parsed: Date | null = this.options.initialTarget;
+    if (mode !== "stopwatch") {
+      if (!this.targetValue) {
+        new Notice(this.strings.emptyWarning);
+        return;
+      }
+
+      parsed = parseTargetInput(this.targetValue, new Date(), this.timeZoneValue)?.date ?? null;
+      if (!parsed) {
+        new Notice(this.strings.parseWarning);
+        return;
+      }
     }
 
     const label = this.labelValue.trim() || this.plugin.getDefaultLabel(this.strings);
     const color = normaliseColor(this.colorValue) ?? this.plugin.settings.defaultColor;
+    const expiry = this.expiryValue;
+    const expiryMessage = expiry === "message" ? this.expiryMessageValue.trim() : "";
+    const repeat = mode === "countdown" ? this.buildRepeatRule(parsed) : null;
+    const timeZone = this.timeZoneValue;
+    if (repeat === undefined) {
+      new Notice(this.strings.repeatInvalid);
+      return;
+    }
+
+    let start: Date | null = null;
+    if (mode === "countdown" && this.startValue.trim()) {
+      start = parseTargetInput(this.startValue, new Date(), timeZone)?.date ?? null;
+      if (!start) {
+        new Notice(this.strings.parseWarning);
+        return;
+      }
+      if (!repeat && start.getTime() >= parsed.getTime()) {
+        new Notice(this.strings.startAfterTarget);
+        return;
+      }
+    }
 
     try {
-      await this.options.onSubmit({ target: parsed, label, color });
+      await this.options.onSubmit({ target: parsed, label, color, expiry, expiryMessage, mode, repeat, timeZone, start });
       this.close();
     } catch (error) {
       console.error(error);
@@ -400,42 +1622,124 @@ class CountdownView extends MarkdownRenderChild {
   private target: Date;
   private label: string;
   private color: string;
+  private expiry: CountdownExpiryMode;
+  private expiryMessage: string;
+  private mode: CountdownMode;
+  private stopwatch: StopwatchState;
+  private repeat: RecurrenceRule | null;
+  private occurrence: Date | null = null;
+  private timeZone: string | null;
+  private targetReference: TargetReference | null;
+  private sourcePath: string;
+  private start: Date | null;
+  private progressStyle: ProgressStyle;
+  private previous: Date | null = null;
+  private progressEl: HTMLElement | null = null;
+  private progressFillEl: Element | null = null;
+  private progressTextEl: HTMLElement | null = null;
+  private pausedRemaining: number | null;
+  private pinned: boolean;
+  private pinBtn: HTMLElement | null = null;
+  private pauseBtn: HTMLElement | null = null;
+  private adjustBtns: HTMLElement[] = [];
+  private zonesEl: HTMLElement | null = null;
+  private zonesTarget: number | null = null;
+  private calendarEl: HTMLElement | null = null;
   private context: CountdownBlockContext | null;
-  private intervalId: number | null = null;
-  private valueEls: Record<CountdownUnit["key"], HTMLElement>;
-  private containerEl: HTMLElement;
+  private units: CountdownUnitKey[];
+  private format: CountdownDisplayFormat;
+  private hideLeadingZeros: boolean;
+  private style: CountdownBlockStyle;
+  private calendar: CountdownCalendar;
+  private unitEls: CountdownUnitElements[];
+  private textEl: HTMLElement | null = null;
+  private digitsEl: HTMLElement | null = null;
+  private signEl: HTMLElement | null = null;
+  private messageEl: HTMLElement | null = null;
   private labelEl: HTMLElement | null = null;
+  private statusEl: HTMLElement | null = null;
+  private controlsEl: HTMLElement | null = null;
+  private toggleRunBtn: HTMLElement | null = null;
   private colorPopover: HTMLElement | null = null;
 
   constructor(plugin: CountdownTimerPlugin, containerEl: HTMLElement, options: CountdownViewOptions) {
     super(containerEl);
     this.plugin = plugin;
-    this.containerEl = containerEl;
     this.target = options.target;
     this.label = options.label;
     const defaultColor = normaliseColor(this.plugin.settings.defaultColor) ?? DEFAULT_SETTINGS.defaultColor;
     this.color = normaliseColor(options.color) ?? defaultColor;
+    this.expiry = options.expiry;
+    this.expiryMessage = options.expiryMessage;
+    this.mode = options.mode;
+    this.stopwatch = options.stopwatch;
+    this.repeat = options.repeat;
+    this.timeZone = options.timeZone;
+    this.targetReference = options.targetReference;
+    this.sourcePath = options.sourcePath;
+    this.start = options.start;
+    this.progressStyle = options.progressStyle;
+    this.pausedRemaining = options.pausedRemaining;
+    this.pinned = options.pinned;
     this.context = options.context;
     this.strings = options.strings;
-    this.valueEls = this.setupDom(containerEl);
+    this.units = options.units.length ? options.units : DEFAULT_SETTINGS.defaultUnits;
+    this.format = options.format;
+    this.hideLeadingZeros = options.hideLeadingZeros;
+    this.style = options.style;
+    this.calendar = options.calendar;
+    this.unitEls = this.setupDom(containerEl);
   }
 
   onload() {
     this.tick();
-    const intervalId = window.setInterval(() => this.tick(), 1000);
-    this.intervalId = intervalId;
-    this.registerInterval(intervalId);
+    this.register(
+      this.plugin.clock.subscribe(() => this.tick(), { el: this.containerEl, precision: () => this.getClockPrecision() })
+    );
+
+    if (this.targetReference) {
+      this.registerEvent(
+        this.plugin.app.metadataCache.on("changed", (file) => this.onReferenceChanged(file))
+      );
+    }
   }
 
-  onunload() {
-    if (this.intervalId) {
-      window.clearInterval(this.intervalId);
-      this.intervalId = null;
+  private onReferenceChanged(file: TFile) {
+    if (!this.targetReference) {
+      return;
     }
+    const resolved = this.plugin.resolveTargetReference(this.targetReference, this.sourcePath);
+    if (resolved?.file.path !== file.path) {
+      return;
+    }
+
+    const target = parseTargetInput(normalisePropertyDate(resolved.value), new Date(), this.timeZone)?.date;
+    if (!target || target.getTime() === this.target.getTime()) {
+      return;
+    }
+    this.target = target;
+    this.occurrence = null;
+    this.zonesTarget = null;
+    this.tick();
+  }
+
+  /** Seconds are only needed while they are on screen, or in the last minute before the target. */
+  private getClockPrecision(): ClockPrecision {
+    if (this.format !== "human" && this.units.includes("seconds")) {
+      return "second";
+    }
+    if (this.mode === "countdown" && this.pausedRemaining === null) {
+      const now = Date.now();
+      const remaining = this.getCurrentTarget(now).getTime() - now;
+      if (remaining > 0 && remaining <= 60 * 1000) {
+        return "second";
+      }
+    }
+    return "minute";
   }
 
   private setupDom(root: HTMLElement) {
-    root.addClass(COUNTDOWN_CONTAINER_CLASS);
+    root.addClass(COUNTDOWN_CONTAINER_CLASS, `obsidian-countdown--${this.style}`);
     this.applyColor(this.color);
 
     if (this.context) {
@@ -465,19 +1769,36 @@ class CountdownView extends MarkdownRenderChild {
         this.toggleColorPopover();
       };
 
+      this.pinBtn = this.createActionButton(actions, "pin", this.strings.toolbarPin, () => this.togglePinned());
+      this.pauseBtn = this.createActionButton(actions, "pause", this.strings.toolbarPause, () => this.togglePause());
+      this.adjustBtns = [
+        this.createActionButton(
+          actions,
+          null,
+          formatString(this.strings.toolbarAddTime, { minutes: String(ADJUST_STEP_MINUTES) }),
+          () => this.adjustTarget(ADJUST_STEP_MINUTES)
+        ),
+        this.createActionButton(
+          actions,
+          null,
+          formatString(this.strings.toolbarSubtractTime, { minutes: String(ADJUST_STEP_MINUTES) }),
+          () => this.adjustTarget(-ADJUST_STEP_MINUTES)
+        )
+      ];
+      this.adjustBtns[0].setText(`+${ADJUST_STEP_MINUTES}`);
+      this.adjustBtns[1].setText(`−${ADJUST_STEP_MINUTES}`);
+      this.renderTimerActions();
+
       const popover = root.createDiv({ cls: "obsidian-countdown__color-popover" });
       popover.createDiv({ cls: "obsidian-countdown__color-title", text: this.strings.colorPopoverTitle });
       const palette = popover.createDiv({ cls: "obsidian-countdown__color-options" });
 
-      COLOR_PRESETS.forEach((hex) => {
+      this.plugin.getColorPalette().forEach((optionColor) => {
         const option = palette.createEl("button", { cls: COLOR_OPTION_CLASS });
         option.setAttr("type", "button");
-        const presetColor = normaliseColor(hex);
-        const labelColor = presetColor ?? hex;
-        const optionColor = normaliseColor(labelColor) ?? labelColor;
-        option.setAttribute("aria-label", labelColor);
+        option.setAttribute("aria-label", optionColor);
         option.dataset.countdownColor = optionColor;
-        option.style.setProperty("--countdown-option-color", optionColor);
+        option.style.setProperty("--countdown-option-color", getCssColor(optionColor));
         if (colorsEqual(optionColor, this.color)) {
           option.addClass("is-selected");
         }
@@ -510,28 +1831,211 @@ class CountdownView extends MarkdownRenderChild {
     const content = root.createDiv({ cls: "obsidian-countdown__content" });
 
     const digitsWrapper = content.createDiv({ cls: "obsidian-countdown__digits" });
-    const valueElements: Partial<Record<CountdownUnit["key"], HTMLElement>> = {};
-    const units: CountdownUnit[] = [
-      { key: "days", label: this.strings.unitDays },
-      { key: "hours", label: this.strings.unitHours },
-      { key: "minutes", label: this.strings.unitMinutes },
-      { key: "seconds", label: this.strings.unitSeconds }
-    ];
+    this.digitsEl = digitsWrapper;
+    this.signEl = digitsWrapper.createDiv({ cls: "obsidian-countdown__sign", text: "+" });
+    const unitElements: CountdownUnitElements[] = [];
+    const units: CountdownUnit[] = this.units.map((key) => ({ key, label: getUnitLabel(key, this.strings) }));
 
     units.forEach((unit, index) => {
+      const separatorEl = index > 0 ? digitsWrapper.createDiv({ cls: "obsidian-countdown__separator", text: ":" }) : null;
       const unitEl = digitsWrapper.createDiv({ cls: "obsidian-countdown__unit" });
       const valueEl = unitEl.createDiv({ cls: "obsidian-countdown__value", text: "00" });
       unitEl.createDiv({ cls: "obsidian-countdown__suffix", text: unit.label });
-      valueElements[unit.key] = valueEl;
-
-      if (index < units.length - 1) {
-        digitsWrapper.createDiv({ cls: "obsidian-countdown__separator", text: ":" });
-      }
+      unitElements.push({ key: unit.key, unitEl, valueEl, separatorEl });
     });
 
+    this.textEl = content.createDiv({ cls: "obsidian-countdown__text" });
+    this.zonesEl = content.createDiv({ cls: "obsidian-countdown__zones" });
+    this.calendarEl = content.createDiv({ cls: "obsidian-countdown__calendar" });
+    this.messageEl = content.createDiv({ cls: "obsidian-countdown__message" });
     this.labelEl = content.createDiv({ cls: "obsidian-countdown__label", text: this.label });
+    this.statusEl = content.createDiv({ cls: "obsidian-countdown__status", text: this.strings.expiredCaption });
+    this.setupProgress(content);
+
+    if (this.context) {
+      this.controlsEl = content.createDiv({ cls: "obsidian-countdown__controls" });
+      this.toggleRunBtn = this.createControlButton(this.controlsEl, "play", this.strings.stopwatchStart, () =>
+        this.toggleStopwatch()
+      );
+      this.createControlButton(this.controlsEl, "rotate-ccw", this.strings.stopwatchReset, () => this.resetStopwatch());
+      this.renderStopwatchControls();
+    }
+
+    return unitElements;
+  }
+
+  private setupProgress(content: HTMLElement) {
+    const progressEl = content.createDiv({ cls: `obsidian-countdown__progress is-${this.progressStyle}` });
+    if (this.progressStyle === "ring") {
+      const svg = progressEl.createSvg("svg", { attr: { viewBox: "0 0 40 40" } });
+      const circle = { cx: 20, cy: 20, r: PROGRESS_RING_RADIUS };
+      svg.createSvg("circle", { cls: "obsidian-countdown__progress-track", attr: circle });
+      this.progressFillEl = svg.createSvg("circle", {
+        cls: "obsidian-countdown__progress-fill",
+        attr: { ...circle, transform: "rotate(-90 20 20)" }
+      });
+    } else {
+      const track = progressEl.createDiv({ cls: "obsidian-countdown__progress-track" });
+      this.progressFillEl = track.createDiv({ cls: "obsidian-countdown__progress-fill" });
+    }
+    this.progressTextEl = progressEl.createDiv({ cls: "obsidian-countdown__progress-text" });
+    this.progressEl = progressEl;
+  }
+
+  /** Toolbar button; `icon` is `null` for buttons that show text instead. */
+  private createActionButton(parent: HTMLElement, icon: string | null, label: string, onClick: () => Promise<void>) {
+    const button = parent.createEl("button", { cls: "obsidian-countdown__action-btn" });
+    button.setAttr("type", "button");
+    if (icon) {
+      setIcon(button, icon);
+    }
+    button.setAttribute("aria-label", label);
+    button.setAttribute("title", label);
+    button.addEventListener("mousedown", (evt) => evt.stopPropagation());
+    button.onclick = async (evt) => {
+      evt.preventDefault();
+      evt.stopPropagation();
+      await onClick();
+    };
+    return button;
+  }
+
+  private createControlButton(parent: HTMLElement, icon: string, label: string, onClick: () => Promise<void>) {
+    const button = parent.createEl("button", { cls: "obsidian-countdown__control-btn" });
+    button.setAttr("type", "button");
+    setIcon(button, icon);
+    button.setAttribute("aria-label", label);
+    button.setAttribute("title", label);
+    button.addEventListener("mousedown", (evt) => evt.stopPropagation());
+    button.onclick = async (evt) => {
+      evt.preventDefault();
+      evt.stopPropagation();
+      await onClick();
+    };
+    return button;
+  }
+
+  private renderStopwatchControls() {
+    this.controlsEl?.toggle(this.mode === "stopwatch");
+    if (!this.toggleRunBtn) {
+      return;
+    }
+    const running = this.stopwatch.startedAt !== null;
+    const label = running ? this.strings.stopwatchStop : this.strings.stopwatchStart;
+    setIcon(this.toggleRunBtn, running ? "square" : "play");
+    this.toggleRunBtn.setAttribute("aria-label", label);
+    this.toggleRunBtn.setAttribute("title", label);
+  }
+
+  private async toggleStopwatch() {
+    const now = Date.now();
+    const { elapsedMs, startedAt } = this.stopwatch;
+    const next: StopwatchState = startedAt
+      ? { elapsedMs: elapsedMs + Math.max(0, now - startedAt.getTime()), startedAt: null }
+      : { elapsedMs, startedAt: new Date(now) };
+    await this.saveStopwatch(next);
+  }
+
+  private async resetStopwatch() {
+    await this.saveStopwatch({ elapsedMs: 0, startedAt: null });
+  }
+
+  /** Pausing and nudging only make sense for plain countdowns; recurring ones follow their rule. */
+  private renderTimerActions() {
+    const adjustable = this.mode === "countdown" && !this.repeat;
+    const paused = this.pausedRemaining !== null;
+    this.pauseBtn?.toggle(adjustable && (paused || this.target.getTime() > Date.now()));
+    this.adjustBtns.forEach((button) => button.toggle(adjustable));
+    if (this.pinBtn) {
+      const pinLabel = this.pinned ? this.strings.toolbarUnpin : this.strings.toolbarPin;
+      this.pinBtn.toggle(this.mode === "countdown");
+      this.pinBtn.toggleClass("is-active", this.pinned);
+      setIcon(this.pinBtn, this.pinned ? "pin-off" : "pin");
+      this.pinBtn.setAttribute("aria-label", pinLabel);
+      this.pinBtn.setAttribute("title", pinLabel);
+    }
+    if (!this.pauseBtn) {
+      return;
+    }
+    const label = paused ? this.strings.toolbarResume : this.strings.toolbarPause;
+    setIcon(this.pauseBtn, paused ? "play" : "pause");
+    this.pauseBtn.setAttribute("aria-label", label);
+    this.pauseBtn.setAttribute("title", label);
+  }
+
+  private async togglePinned() {
+    if (!this.context) {
+      return;
+    }
+    const pinned = !this.pinned;
+    await this.plugin.updateCountdownBlock(this.context, { ...this.getBlockData(), pinned });
+    this.pinned = pinned;
+    this.renderTimerActions();
+  }
+
+  private async togglePause() {
+    const now = Date.now();
+    if (this.pausedRemaining !== null) {
+      // Resuming moves the target so that the remaining time picks up where it stopped.
+      await this.saveTimer(new Date(now + this.pausedRemaining), null);
+      return;
+    }
+    const remaining = this.target.getTime() - now;
+    if (remaining > 0) {
+      await this.saveTimer(this.target, remaining);
+    }
+  }
+
+  private async adjustTarget(minutes: number) {
+    const delta = minutes * 60 * 1000;
+    if (this.pausedRemaining !== null) {
+      await this.saveTimer(this.target, Math.max(0, this.pausedRemaining + delta));
+    } else {
+      await this.saveTimer(new Date(this.target.getTime() + delta), null);
+    }
+  }
+
+  private async saveTimer(target: Date, pausedRemaining: number | null) {
+    if (!this.context) {
+      return;
+    }
+    if (this.targetReference && target.getTime() !== this.target.getTime()) {
+      await this.plugin.updateTargetReference(this.targetReference, this.sourcePath, target, this.timeZone);
+    }
+    await this.plugin.updateCountdownBlock(this.context, { ...this.getBlockData(), target, pausedRemaining });
+    this.target = target;
+    this.pausedRemaining = pausedRemaining;
+    this.zonesTarget = null;
+    this.renderTimerActions();
+    this.tick();
+  }
+
+  private async saveStopwatch(state: StopwatchState) {
+    if (!this.context) {
+      return;
+    }
+    await this.plugin.updateCountdownBlock(this.context, { ...this.getBlockData(), stopwatch: state });
+    this.stopwatch = state;
+    this.renderStopwatchControls();
+    this.tick();
+  }
 
-    return valueElements as Record<CountdownUnit["key"], HTMLElement>;
+  private getBlockData(): CountdownBlockData {
+    return {
+      target: this.target,
+      label: this.label,
+      color: this.color,
+      expiry: this.expiry,
+      expiryMessage: this.expiryMessage,
+      mode: this.mode,
+      stopwatch: this.stopwatch,
+      repeat: this.repeat,
+      timeZone: this.timeZone,
+      targetReference: this.targetReference,
+      start: this.start,
+      pausedRemaining: this.pausedRemaining,
+      pinned: this.pinned
+    };
   }
 
   private toggleColorPopover() {
@@ -565,12 +2069,12 @@ class CountdownView extends MarkdownRenderChild {
     const colorOptionSelector = `.${COLOR_OPTION_CLASS}`;
     const options = Array.from(this.colorPopover.querySelectorAll<HTMLElement>(colorOptionSelector));
     options.forEach((option) => {
-      const hex = normaliseColor(option.dataset.countdownColor) ?? "";
-      if (hex) {
-        option.dataset.countdownColor = hex;
-        option.style.setProperty("--countdown-option-color", hex);
+      const color = normaliseColor(option.dataset.countdownColor) ?? "";
+      if (color) {
+        option.dataset.countdownColor = color;
+        option.style.setProperty("--countdown-option-color", getCssColor(color));
       }
-      if (colorsEqual(hex, this.color)) {
+      if (colorsEqual(color, this.color)) {
         option.addClass("is-selected");
       } else {
         option.removeClass("is-selected");
@@ -588,11 +2092,7 @@ class CountdownView extends MarkdownRenderChild {
       return;
     }
 
-    await this.plugin.updateCountdownBlock(this.context, {
-      target: this.target,
-      label: this.label,
-      color: normalised
-    });
+    await this.plugin.updateCountdownBlock(this.context, { ...this.getBlockData(), color: normalised });
 
     this.color = normalised;
     this.applyColor(normalised);
@@ -604,7 +2104,7 @@ class CountdownView extends MarkdownRenderChild {
     if (!normalised) {
       return;
     }
-    this.containerEl.style.setProperty("--countdown-color", normalised);
+    this.containerEl.style.setProperty("--countdown-color", getCssColor(normalised));
     this.containerEl.setAttribute("data-countdown-color", normalised);
   }
 
@@ -619,170 +2119,4353 @@ class CountdownView extends MarkdownRenderChild {
       initialTarget: this.target,
       initialLabel: this.label,
       initialColor: this.color,
-      onSubmit: async ({ target, label, color }) => {
-        await this.plugin.updateCountdownBlock(this.context!, { target, label, color });
+      initialExpiry: this.expiry,
+      initialExpiryMessage: this.expiryMessage,
+      initialMode: this.mode,
+      initialRepeat: this.repeat,
+      initialTimeZone: this.timeZone,
+      initialStart: this.start,
+      onSubmit: async (result) => {
+        if (this.targetReference && result.mode !== "stopwatch") {
+          await this.plugin.updateTargetReference(this.targetReference, this.sourcePath, result.target, result.timeZone);
+        }
+        // A paused countdown stays paused unless its target was changed.
+        const pausedRemaining = result.target.getTime() === this.target.getTime() ? this.pausedRemaining : null;
+        await this.plugin.updateCountdownBlock(this.context!, {
+          ...result,
+          stopwatch: this.stopwatch,
+          targetReference: this.targetReference,
+          pausedRemaining,
+          pinned: this.pinned
+        });
+        const { target, label, color } = result;
         this.target = target;
         this.label = label;
         this.color = color;
+        this.expiry = result.expiry;
+        this.expiryMessage = result.expiryMessage;
+        this.mode = result.mode;
+        this.repeat = result.repeat;
+        this.timeZone = result.timeZone;
+        this.start = result.start;
+        this.pausedRemaining = pausedRemaining;
+        this.occurrence = null;
+        this.zonesTarget = null;
         this.applyColor(color);
         this.labelEl?.setText(label);
+        this.renderStopwatchControls();
+        this.renderTimerActions();
         this.tick();
         this.updateColorSelection();
       }
     }).open();
   }
-  
+
   private tick() {
     const now = Date.now();
-    const diffMs = this.target.getTime() - now;  // 原本差距
-    const totalSeconds = Math.floor(Math.abs(diffMs) / 1000); // 取絕對值
+    const { shownMs, expired, countingUp } = this.computeDisplay(now);
+    this.renderExpiredState(expired);
+    this.renderZones(now);
+    this.renderProgress(now);
 
-    const days = Math.floor(totalSeconds / 86400);
-    const hours = Math.floor((totalSeconds % 86400) / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    const seconds = totalSeconds % 60;
+    // Calendar units (years, months) are counted along the real span being shown.
+    const start = new Date(countingUp ? now - shownMs : now);
+    const end = new Date(countingUp ? now : now + shownMs);
+    const calendarValues = breakdownDuration(start, end, this.units);
+
+    // Business countdowns show the working time left, with the calendar time beneath it.
+    const working = this.mode === "countdown" && !countingUp && this.calendar === "business";
+    const workingCalendar = this.plugin.getWorkingCalendar();
+    const workingMs = working ? countWorkingMs(start, end, workingCalendar) : 0;
+    const values = working ? breakdownWorkingDuration(workingMs, this.units, workingCalendar) : calendarValues;
+    this.calendarEl?.toggle(working);
+    if (working) {
+      const duration = formatCompactDuration(calendarValues, this.units, this.strings);
+      this.calendarEl?.setText(formatString(this.strings.businessCalendarTime, { duration }));
+    }
 
     // 更新數字顯示
-    this.valueEls.days.setText(pad(days));
-    this.valueEls.hours.setText(pad(hours));
-    this.valueEls.minutes.setText(pad(minutes));
-    this.valueEls.seconds.setText(pad(seconds));
+    if (this.format === "digits") {
+      this.renderDigits(values);
+    } else if (this.format === "compact") {
+      const sign = expired && this.expiry === "elapsed" ? "+" : "";
+      this.textEl?.setText(sign + formatCompactDuration(values, this.units, this.strings));
+    } else {
+      const duration = working
+        ? formatHumanWorkingDuration(workingMs, this.units, workingCalendar, this.strings)
+        : formatHumanDuration(start, end, this.units, this.strings);
+      this.textEl?.setText(this.formatHuman(now, duration));
+    }
 
     // 更新標籤
     this.labelEl?.setText(this.label);
   }
-}
 
-class CountdownSettingTab extends PluginSettingTab {
-  private plugin: CountdownTimerPlugin;
+  private renderProgress(now: number) {
+    if (!this.progressEl) {
+      return;
+    }
 
-  constructor(app: App, plugin: CountdownTimerPlugin) {
-    super(app, plugin);
-    this.plugin = plugin;
+    const startMs = this.getProgressStart(now);
+    this.progressEl.toggle(startMs !== null);
+    if (startMs === null) {
+      return;
+    }
+
+    // While paused the bar holds still at the moment of pausing.
+    const target = this.getCurrentTarget(now).getTime();
+    const current = this.pausedRemaining !== null ? target - this.pausedRemaining : now;
+    const span = target - startMs;
+    const ratio = span > 0 ? Math.min(1, Math.max(0, (current - startMs) / span)) : 1;
+    const percent = Math.floor(ratio * 100);
+    if (this.progressFillEl instanceof SVGElement) {
+      const circumference = 2 * Math.PI * PROGRESS_RING_RADIUS;
+      this.progressFillEl.setAttribute("stroke-dasharray", `${circumference * ratio} ${circumference}`);
+    } else if (this.progressFillEl instanceof HTMLElement) {
+      this.progressFillEl.style.width = `${ratio * 100}%`;
+    }
+    this.progressTextEl?.setText(formatString(this.strings.progressElapsed, { percent: String(percent) }));
   }
 
-  display() {
-    const { containerEl } = this;
-    const strings = this.plugin.getStrings();
+  /** Recurring countdowns measure from the previous occurrence once the series is under way. */
+  private getProgressStart(now: number): number | null {
+    if (!this.start || this.mode !== "countdown") {
+      return null;
+    }
+    this.getCurrentTarget(now);
+    const previous = this.repeat ? this.previous?.getTime() ?? null : null;
+    return previous !== null && previous > this.start.getTime() ? previous : this.start.getTime();
+  }
 
-    containerEl.empty();
+  private renderDigits(values: Record<CountdownUnitKey, number>) {
+    // With leading zeros hidden, the first non-zero unit leads (the smallest unit always stays).
+    const firstShown = this.hideLeadingZeros
+      ? Math.max(
+          0,
+          this.unitEls.findIndex((unit, index) => values[unit.key] > 0 || index === this.unitEls.length - 1)
+        )
+      : 0;
 
-    new Setting(containerEl)
-      .setName(strings.settingsDefaultLabel)
-      .setDesc(strings.labelHint)
-      .addText((text) =>
-        text.setValue(this.plugin.settings.defaultLabel).onChange(async (value) => {
-          this.plugin.settings.defaultLabel = value.trim();
-          await this.plugin.saveSettings();
-        })
+    this.unitEls.forEach((unit, index) => {
+      unit.valueEl.setText(pad(values[unit.key]));
+      unit.unitEl.toggle(index >= firstShown);
+      unit.separatorEl?.toggle(index > firstShown);
+    });
+  }
+
+  private formatHuman(now: number, duration: string) {
+    if (this.mode === "stopwatch") {
+      return formatString(this.strings.humanDuration, { duration });
+    }
+    const future = this.getCurrentTarget(now).getTime() > now;
+    return formatString(future ? this.strings.humanFuture : this.strings.humanPast, { duration });
+  }
+
+  private computeDisplay(now: number): { shownMs: number; expired: boolean; countingUp: boolean } {
+    if (this.mode === "stopwatch") {
+      const { elapsedMs, startedAt } = this.stopwatch;
+      const runningMs = startedAt ? Math.max(0, now - startedAt.getTime()) : 0;
+      return { shownMs: elapsedMs + runningMs, expired: false, countingUp: true };
+    }
+
+    if (this.mode === "countdown" && this.pausedRemaining !== null) {
+      return { shownMs: this.pausedRemaining, expired: false, countingUp: false };
+    }
+
+    const diffMs = this.getCurrentTarget(now).getTime() - now;  // 原本差距
+    if (this.mode === "since") {
+      return { shownMs: Math.max(0, -diffMs), expired: false, countingUp: true };
+    }
+
+    // Frozen timers stay at zero; elapsed timers count up from the target.
+    const expired = diffMs <= 0;
+    const shownMs = !expired ? diffMs : this.expiry === "elapsed" ? -diffMs : 0;
+    return { shownMs, expired, countingUp: expired };
+  }
+
+  /** The target itself, or for repeating blocks the next occurrence (cached until it passes). */
+  private getCurrentTarget(now: number) {
+    if (!this.repeat || this.mode !== "countdown") {
+      return this.target;
+    }
+
+    if (!this.occurrence || this.occurrence.getTime() <= now) {
+      this.occurrence = nextOccurrence(this.repeat, this.target, now, this.timeZone) ?? this.target;
+      this.previous = previousOccurrence(this.repeat, this.target, now, this.timeZone);
+      this.updateOccurrenceTooltip(now);
+    }
+    return this.occurrence;
+  }
+
+  private updateOccurrenceTooltip(now: number) {
+    if (!this.digitsEl || !this.repeat) {
+      return;
+    }
+
+    const locale = this.plugin.getLocale();
+    const lines: string[] = [];
+    if (this.occurrence) {
+      lines.push(formatString(this.strings.occurrenceNext, { date: this.occurrence.toLocaleString(locale) }));
+    }
+    if (this.previous) {
+      lines.push(formatString(this.strings.occurrencePrevious, { date: this.previous.toLocaleString(locale) }));
+    }
+    this.digitsEl.setAttribute("title", lines.join("\n"));
+  }
+
+  /** Shows the target in the block's zone and the viewer's zone when the block names one. */
+  private renderZones(now: number) {
+    if (!this.zonesEl) {
+      return;
+    }
+
+    const visible = this.timeZone !== null && this.mode !== "stopwatch";
+    this.zonesEl.toggle(visible);
+    if (!visible) {
+      return;
+    }
+
+    const target = this.getCurrentTarget(now);
+    if (this.zonesTarget === target.getTime()) {
+      return;
+    }
+    this.zonesTarget = target.getTime();
+    const locale = this.plugin.getLocale();
+    this.zonesEl.setText(formatZonedTargets(target, this.timeZone, locale, this.strings));
+  }
+
+  private renderExpiredState(expired: boolean) {
+    this.containerEl.toggleClass(COUNTDOWN_EXPIRED_CLASS, expired);
+
+    const showMessage = expired && this.expiry === "message";
+    this.digitsEl?.toggle(!showMessage && this.format === "digits");
+    this.textEl?.toggle(!showMessage && this.format !== "digits");
+    this.messageEl?.toggle(showMessage);
+    if (showMessage) {
+      this.messageEl?.setText(this.expiryMessage || this.strings.expiredCaption);
+    }
+
+    const paused = this.pausedRemaining !== null && this.mode === "countdown";
+    this.containerEl.toggleClass("is-paused", paused);
+    this.signEl?.toggle(expired && this.expiry === "elapsed");
+    this.statusEl?.setText(paused ? this.strings.pausedCaption : this.strings.expiredCaption);
+    this.statusEl?.toggle((expired && !showMessage) || paused);
+  }
+}
+
+/**
+ * The one timer behind every live display. It fires just after each second (or,
+ * when nobody shows seconds, each minute) boundary, so all countdowns flip
+ * together. Subscribers with an element are skipped while it is scrolled out of
+ * view or its window is hidden, and updated as soon as it is visible again;
+ * subscribers without one, such as notifications, always run.
+ *
+ * Every tick reads the wall clock and minute subscribers compare minute numbers
+ * rather than counting ticks, so after the system sleeps the next tick simply
+ * shows the right time.
+ */
+class CountdownClock extends Component {
+  private subscribers = new Set<ClockSubscriber>();
+  private byEl = new Map<Element, ClockSubscriber>();
+  private observer: IntersectionObserver | null = null;
+  private timeoutId: number | null = null;
+
+  onload() {
+    this.observer = new IntersectionObserver((entries) => this.onIntersection(entries));
+    this.registerDomEvent(document, "visibilitychange", () => {
+      if (!document.hidden) {
+        this.run(true);
+      } else {
+        this.schedule();
+      }
+    });
+  }
+
+  onunload() {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.clearTimeout();
+    this.subscribers.clear();
+    this.byEl.clear();
+  }
+
+  /** Registers a tick callback and returns a function that removes it. */
+  subscribe(callback: (now: number) => void, options: ClockSubscriberOptions = {}) {
+    const subscriber: ClockSubscriber = {
+      callback,
+      el: options.el ?? null,
+      precision: options.precision ?? (() => "second"),
+      visible: true,
+      lastTick: Date.now()
+    };
+    this.subscribers.add(subscriber);
+    // Elements in pop-out windows are not observed: an observer only sees its own window.
+    if (subscriber.el && subscriber.el.doc === document) {
+      this.byEl.set(subscriber.el, subscriber);
+      this.observer?.observe(subscriber.el);
+    }
+    this.schedule();
+    return () => {
+      this.subscribers.delete(subscriber);
+      if (subscriber.el && this.byEl.get(subscriber.el) === subscriber) {
+        this.byEl.delete(subscriber.el);
+        this.observer?.unobserve(subscriber.el);
+      }
+    };
+  }
+
+  private onIntersection(entries: IntersectionObserverEntry[]) {
+    const now = Date.now();
+    entries.forEach((entry) => {
+      const subscriber = this.byEl.get(entry.target);
+      if (!subscriber) {
+        return;
+      }
+      const wasVisible = subscriber.visible;
+      subscriber.visible = entry.isIntersecting;
+      if (!wasVisible && subscriber.visible) {
+        this.tickSubscriber(subscriber, now);
+      }
+    });
+    this.schedule();
+  }
+
+  private isActive(subscriber: ClockSubscriber) {
+    if (!subscriber.el) {
+      return true;
+    }
+    return subscriber.visible && !subscriber.el.doc.hidden;
+  }
+
+  private run(force = false) {
+    this.timeoutId = null;
+    const now = Date.now();
+    this.subscribers.forEach((subscriber) => {
+      if (!this.isActive(subscriber)) {
+        return;
+      }
+      const due =
+        force ||
+        subscriber.precision() === "second" ||
+        Math.floor(now / 60000) !== Math.floor(subscriber.lastTick / 60000);
+      if (due) {
+        this.tickSubscriber(subscriber, now);
+      }
+    });
+    this.schedule();
+  }
+
+  private tickSubscriber(subscriber: ClockSubscriber, now: number) {
+    subscriber.lastTick = now;
+    try {
+      subscriber.callback(now);
+    } catch (error) {
+      console.error("Countdown clock subscriber failed", error);
+    }
+  }
+
+  /** Sets the next tick for the next second or minute boundary, or none if nothing is on screen. */
+  private schedule() {
+    this.clearTimeout();
+    // Not loaded yet, or already unloaded along with the plugin.
+    if (!this.observer) {
+      return;
+    }
+    const active = Array.from(this.subscribers).filter((subscriber) => this.isActive(subscriber));
+    if (!active.length) {
+      return;
+    }
+    const step = active.some((subscriber) => subscriber.precision() === "second") ? 1000 : 60000;
+    // A few milliseconds past the boundary, so the new second has definitely begun.
+    const delay = step - (Date.now() % step) + CLOCK_TICK_OFFSET_MS;
+    this.timeoutId = window.setTimeout(() => this.run(), delay);
+  }
+
+  private clearTimeout() {
+    if (this.timeoutId !== null) {
+      window.clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+}
+
+const COUNTDOWN_FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*countdown\s*$/;
+
+/**
+ * Keeps track of every `countdown` block in the vault. Files are located through
+ * the metadata cache's code sections and re-indexed whenever the cache changes.
+ */
+class CountdownIndex extends Component {
+  private plugin: CountdownTimerPlugin;
+  private entries = new Map<string, IndexedCountdown[]>();
+  private listeners = new Set<() => void>();
+
+  constructor(plugin: CountdownTimerPlugin) {
+    super();
+    this.plugin = plugin;
+  }
+
+  onload() {
+    const { app } = this.plugin;
+
+    app.workspace.onLayoutReady(() => void this.rebuild());
+
+    this.registerEvent(
+      app.metadataCache.on("changed", (file, data, cache) => {
+        this.indexFile(file, data, cache);
+        void this.reindexReferencing(file.path).then(() => this.emitChange(file.path));
+      })
+    );
+
+    this.registerEvent(
+      app.vault.on("delete", (file) => {
+        if (this.entries.delete(file.path)) {
+          this.emitChange(file.path);
+        }
+      })
+    );
+
+    this.registerEvent(
+      app.vault.on("rename", (file, oldPath) => {
+        const existing = this.entries.get(oldPath);
+        if (!existing) {
+          return;
+        }
+        this.entries.delete(oldPath);
+        this.entries.set(
+          file.path,
+          existing.map((entry) => ({ ...entry, path: file.path, id: `${file.path}:${entry.lineStart}` }))
+        );
+        this.emitChange(file.path);
+      })
+    );
+  }
+
+  onunload() {
+    this.entries.clear();
+    this.listeners.clear();
+  }
+
+  getAll(): IndexedCountdown[] {
+    return Array.from(this.entries.values()).flat();
+  }
+
+  /** Registers a listener for index changes and returns a function that removes it. */
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async rebuild() {
+    const { app } = this.plugin;
+    this.entries.clear();
+
+    for (const file of app.vault.getMarkdownFiles()) {
+      const cache = app.metadataCache.getFileCache(file);
+      if (!cache?.sections?.some((section) => section.type === "code")) {
+        continue;
+      }
+      const content = await app.vault.cachedRead(file);
+      this.indexFile(file, content, cache);
+    }
+
+    this.emitChange(null);
+  }
+
+  /** Re-reads notes whose countdowns take their target from `path`'s frontmatter. */
+  private async reindexReferencing(path: string) {
+    const { app } = this.plugin;
+    const dependents = Array.from(this.entries.entries())
+      .filter(([entryPath, entries]) => entryPath !== path && entries.some((entry) => entry.referencePath === path))
+      .map(([entryPath]) => entryPath);
+
+    for (const dependentPath of dependents) {
+      const file = app.vault.getAbstractFileByPath(dependentPath);
+      const cache = file instanceof TFile ? app.metadataCache.getFileCache(file) : null;
+      if (file instanceof TFile && cache) {
+        this.indexFile(file, await app.vault.cachedRead(file), cache);
+      }
+    }
+  }
+
+  private indexFile(file: TFile, content: string, cache: CachedMetadata) {
+    const strings = this.plugin.getStrings();
+    const fallbackLabel = this.plugin.getDefaultLabel(strings);
+    const lines = content.split("\n");
+    const found: IndexedCountdown[] = [];
+    const isTemplate = this.plugin.isTemplatePath(file.path);
+    const templateBase = this.plugin.getTemplateBase(file.path);
+    let hasPlaceholders = false;
+
+    (cache.sections ?? []).forEach((section) => {
+      if (section.type !== "code") {
+        return;
+      }
+
+      const lineStart = section.position.start.line;
+      const lineEnd = section.position.end.line;
+      if (!COUNTDOWN_FENCE_PATTERN.test(lines[lineStart] ?? "")) {
+        return;
+      }
+
+      const body = lines.slice(lineStart + 1, lineEnd).join("\n");
+      let referencePath: string | null = null;
+      const parsed = parseCountdownSource(
+        body,
+        fallbackLabel,
+        this.plugin.settings.defaultColor,
+        (reference) => {
+          const resolved = this.plugin.resolveTargetReference(reference, file.path);
+          referencePath = resolved?.file.path ?? null;
+          return resolved?.value ?? null;
+        },
+        templateBase
       );
+      // Placeholders in templates stay as they are; in new notes they are pinned below.
+      if (parsed.hasTemplate) {
+        if (isTemplate) {
+          return;
+        }
+        hasPlaceholders = true;
+      }
+      // Paused countdowns have no fixed end, so they stay out of the list and notifications.
+      if (!parsed.target || parsed.mode !== "countdown" || parsed.pausedRemaining !== null) {
+        return;
+      }
+
+      found.push({
+        id: `${file.path}:${lineStart}`,
+        path: file.path,
+        lineStart,
+        lineEnd,
+        target: parsed.target,
+        label: parsed.label,
+        color: parsed.color,
+        notify: parsed.notify,
+        repeat: parsed.repeat,
+        timeZone: parsed.timeZone,
+        referencePath,
+        pinned: parsed.pinned
+      });
+    });
+
+    if (found.length) {
+      this.entries.set(file.path, found);
+    } else {
+      this.entries.delete(file.path);
+    }
+    if (hasPlaceholders) {
+      void this.plugin.resolveTemplatePlaceholders(file);
+    }
+  }
+
+  /** Tells listeners and other plugins that `path` (or, for null, the whole vault) was re-indexed. */
+  private emitChange(path: string | null) {
+    this.listeners.forEach((listener) => listener());
+    this.plugin.app.workspace.trigger("countdown:updated", path);
+  }
+}
+
+/**
+ * Watches the index and raises notices when a countdown reaches its target or
+ * one of the configured reminder lead times. Each check only fires for moments
+ * that fell between the previous check and now, so nothing repeats after a reload.
+ */
+class CountdownNotifier extends Component {
+  private plugin: CountdownTimerPlugin;
+  private lastCheck = Date.now();
+
+  constructor(plugin: CountdownTimerPlugin) {
+    super();
+    this.plugin = plugin;
+  }
+
+  onload() {
+    this.lastCheck = Date.now();
+    this.register(this.plugin.clock.subscribe(() => this.check()));
+  }
+
+  private check() {
+    const now = Date.now();
+    const since = this.lastCheck;
+    this.lastCheck = now;
+
+    const { settings } = this.plugin;
+    this.plugin.index.getAll().forEach((entry) => {
+      const reached = hasOccurrenceBetween(entry, since, now);
+      // Other plugins hear about every block, whatever the notification settings say.
+      if (reached) {
+        this.plugin.app.workspace.trigger("countdown:expired", toCountdownInfo(entry, now));
+      }
+      if (!settings.notificationsEnabled || !entry.notify) {
+        return;
+      }
+
+      if (reached) {
+        this.fire(entry, 0);
+      }
+
+      // A reminder `lead` ahead fires when an occurrence falls in the window shifted by `lead`.
+      settings.reminderLeadMinutes.forEach((minutes) => {
+        const leadMs = minutes * 60 * 1000;
+        if (hasOccurrenceBetween(entry, since + leadMs, now + leadMs)) {
+          this.fire(entry, minutes);
+        }
+      });
+    });
+  }
+
+  private fire(entry: IndexedCountdown, leadMinutes: number) {
+    const { settings } = this.plugin;
+    const strings = this.plugin.getStrings();
+    const message =
+      leadMinutes > 0
+        ? formatString(strings.notifyUpcoming, {
+            label: entry.label,
+            time: formatDurationShort(leadMinutes * 60 * 1000, strings)
+          })
+        : formatString(strings.notifyReached, { label: entry.label });
+
+    const open = () => void this.plugin.openCountdownLocation(entry.path, entry.lineStart);
+
+    // Reaching the target stays on screen until dismissed; reminders fade out.
+    const notice = new Notice(message, leadMinutes > 0 ? 10000 : 0);
+    notice.containerEl.addClass("obsidian-countdown__notice");
+    notice.containerEl.addEventListener("click", open);
+
+    if (settings.systemNotifications && typeof Notification !== "undefined" && Notification.permission === "granted") {
+      const systemNotification = new Notification(entry.label, { body: message });
+      systemNotification.onclick = () => {
+        window.focus();
+        open();
+      };
+    }
+
+    if (settings.notificationSound) {
+      playNotificationSound();
+    }
+  }
+}
+
+/** Status bar item showing the nearest upcoming countdown in the vault, or the nearest pinned one. */
+class CountdownStatusBar extends Component {
+  private plugin: CountdownTimerPlugin;
+  private statusBarEl: HTMLElement | null = null;
+
+  constructor(plugin: CountdownTimerPlugin) {
+    super();
+    this.plugin = plugin;
+  }
+
+  onload() {
+    const statusBarEl = this.plugin.addStatusBarItem();
+    statusBarEl.addClass("obsidian-countdown__status-bar");
+    this.registerDomEvent(statusBarEl, "click", (evt) => this.openMenu(evt));
+    this.statusBarEl = statusBarEl;
+    this.register(this.plugin.index.subscribe(() => this.update()));
+    this.register(this.plugin.clock.subscribe(() => this.update()));
+    this.update();
+  }
+
+  onunload() {
+    this.statusBarEl?.remove();
+  }
+
+  private getUpcoming(now: number) {
+    return sortByRemaining(this.plugin.index.getAll(), now).filter((entry) => getEntryTarget(entry, now).getTime() > now);
+  }
+
+  private update() {
+    if (!this.statusBarEl) {
+      return;
+    }
+    const now = Date.now();
+    const upcoming = this.getUpcoming(now);
+    const entry = upcoming.find((candidate) => candidate.pinned) ?? upcoming[0];
+    this.statusBarEl.toggle(Boolean(entry));
+    if (!entry) {
+      return;
+    }
+
+    const remaining = formatRemaining(getEntryTarget(entry, now).getTime() - now, this.plugin.getStrings());
+    this.statusBarEl.setText(`${entry.label} · ${remaining}`);
+    this.statusBarEl.style.setProperty("--countdown-color", getCssColor(entry.color));
+    this.statusBarEl.toggleClass("is-pinned", entry.pinned);
+  }
+
+  private openMenu(evt: MouseEvent) {
+    const strings = this.plugin.getStrings();
+    const now = Date.now();
+    const menu = new Menu();
+    this.getUpcoming(now)
+      .slice(0, STATUS_BAR_MENU_SIZE)
+      .forEach((entry) => {
+        const remaining = formatDurationShort(getEntryTarget(entry, now).getTime() - now, strings);
+        menu.addItem((item) =>
+          item
+            .setTitle(`${entry.label} · ${remaining}`)
+            .setIcon(entry.pinned ? "pin" : "timer")
+            .onClick(() => void this.plugin.openCountdownLocation(entry.path, entry.lineStart))
+        );
+      });
+    menu.addSeparator();
+    menu.addItem((item) =>
+      item
+        .setTitle(strings.commandOpenList)
+        .setIcon("list")
+        .onClick(() => void this.plugin.activateListView())
+    );
+    menu.showAtMouseEvent(evt);
+  }
+}
+
+/**
+ * The command-palette timer shown in the status bar: a one-off quick timer or a
+ * Pomodoro cycle alternating focus sessions and breaks. Only one runs at a time.
+ */
+class QuickTimer extends Component {
+  private plugin: CountdownTimerPlugin;
+  private statusBarEl: HTMLElement | null = null;
+  private state: QuickTimerState | null = null;
+  /** Focus sessions completed in the current Pomodoro cycle. */
+  private completedSessions = 0;
+
+  constructor(plugin: CountdownTimerPlugin) {
+    super();
+    this.plugin = plugin;
+  }
+
+  onload() {
+    const statusBarEl = this.plugin.addStatusBarItem();
+    statusBarEl.addClass("obsidian-countdown__quick-timer");
+    statusBarEl.hide();
+    this.registerDomEvent(statusBarEl, "click", (evt) => this.plugin.openQuickTimerMenu(evt));
+    this.statusBarEl = statusBarEl;
+    this.register(this.plugin.clock.subscribe(() => this.tick()));
+  }
+
+  onunload() {
+    this.statusBarEl?.remove();
+    this.state = null;
+  }
+
+  isRunning() {
+    return this.state !== null;
+  }
+
+  isPomodoro() {
+    return this.state !== null && this.state.phase !== "timer";
+  }
+
+  start(minutes: number) {
+    const strings = this.plugin.getStrings();
+    const label = formatString(strings.quickTimerLabel, { duration: formatDurationShort(minutes * 60 * 1000, strings) });
+    this.completedSessions = 0;
+    this.begin("timer", minutes, label);
+    if (this.state && this.plugin.settings.quickTimerInsertBlock) {
+      this.plugin.insertQuickTimerBlock(this.state);
+    }
+  }
+
+  startPomodoro() {
+    this.completedSessions = 0;
+    this.begin("work", this.plugin.settings.pomodoroWorkMinutes, this.plugin.getStrings().pomodoroWork);
+  }
+
+  stop() {
+    this.state = null;
+    this.render();
+  }
+
+  skip() {
+    if (this.isPomodoro()) {
+      this.advance(false);
+    }
+  }
+
+  private begin(phase: QuickTimerPhase, minutes: number, label: string) {
+    const startedAt = new Date();
+    this.state = { phase, label, startedAt, endsAt: new Date(startedAt.getTime() + minutes * 60 * 1000) };
+    this.render();
+  }
+
+  private tick() {
+    if (!this.state) {
+      return;
+    }
+    if (Date.now() < this.state.endsAt.getTime()) {
+      this.render();
+      return;
+    }
+
+    if (this.state.phase === "timer") {
+      this.notify(formatString(this.plugin.getStrings().quickTimerDone, { label: this.state.label }));
+      this.stop();
+      return;
+    }
+    this.advance(true);
+  }
+
+  /** Moves a Pomodoro cycle to its next phase; `completed` is false when the phase was skipped. */
+  private advance(completed: boolean) {
+    const state = this.state;
+    if (!state) {
+      return;
+    }
+
+    const { settings } = this.plugin;
+    const strings = this.plugin.getStrings();
+    if (state.phase !== "work") {
+      if (completed) {
+        this.notify(strings.pomodoroBreakDone);
+      }
+      this.begin("work", settings.pomodoroWorkMinutes, strings.pomodoroWork);
+      return;
+    }
+
+    if (completed) {
+      this.completedSessions += 1;
+      this.notify(strings.pomodoroWorkDone);
+      if (settings.pomodoroLogToDailyNote) {
+        void this.logSession(state);
+      }
+    }
+    const longBreak = completed && this.completedSessions % Math.max(1, settings.pomodoroLongBreakEvery) === 0;
+    if (longBreak) {
+      this.begin("longBreak", settings.pomodoroLongBreakMinutes, strings.pomodoroLongBreak);
+    } else {
+      this.begin("break", settings.pomodoroBreakMinutes, strings.pomodoroBreak);
+    }
+  }
+
+  private async logSession(state: QuickTimerState) {
+    const strings = this.plugin.getStrings();
+    const line = formatString(strings.pomodoroLogEntry, {
+      start: formatMoment(state.startedAt, "HH:mm"),
+      end: formatMoment(state.endsAt, "HH:mm"),
+      duration: formatDurationShort(state.endsAt.getTime() - state.startedAt.getTime(), strings)
+    });
+    try {
+      await this.plugin.appendToDailyNote(line);
+    } catch (error) {
+      console.error(error);
+      new Notice(strings.applyError);
+    }
+  }
+
+  private notify(message: string) {
+    const { settings } = this.plugin;
+    new Notice(message, 10000).containerEl.addClass("obsidian-countdown__notice");
+    if (settings.systemNotifications && typeof Notification !== "undefined" && Notification.permission === "granted") {
+      new Notification(message);
+    }
+    if (settings.notificationSound) {
+      playNotificationSound();
+    }
+  }
+
+  private render() {
+    if (!this.statusBarEl) {
+      return;
+    }
+    this.statusBarEl.toggle(this.state !== null);
+    if (!this.state) {
+      return;
+    }
+    const remaining = this.state.endsAt.getTime() - Date.now();
+    this.statusBarEl.setText(`${this.state.label} ${formatRemaining(remaining, this.plugin.getStrings())}`);
+    this.statusBarEl.toggleClass("is-break", this.state.phase === "break" || this.state.phase === "longBreak");
+  }
+}
+
+class QuickTimerPresetModal extends FuzzySuggestModal<number> {
+  private plugin: CountdownTimerPlugin;
+
+  constructor(plugin: CountdownTimerPlugin) {
+    super(plugin.app);
+    this.plugin = plugin;
+  }
+
+  getItems() {
+    return this.plugin.getQuickTimerPresets();
+  }
+
+  getItemText(minutes: number) {
+    const strings = this.plugin.getStrings();
+    return formatString(strings.commandStartTimer, { duration: formatDurationShort(minutes * 60 * 1000, strings) });
+  }
+
+  onChooseItem(minutes: number) {
+    this.plugin.quickTimer.start(minutes);
+  }
+}
+
+class VaultFileSuggestModal extends FuzzySuggestModal<TFile> {
+  private files: TFile[];
+  private onChoose: (file: TFile) => Promise<void>;
+
+  constructor(app: App, files: TFile[], placeholder: string, onChoose: (file: TFile) => Promise<void>) {
+    super(app);
+    this.files = files;
+    this.onChoose = onChoose;
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems() {
+    return this.files;
+  }
+
+  getItemText(file: TFile) {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile) {
+    void this.onChoose(file);
+  }
+}
+
+class IcsImportModal extends Modal {
+  private plugin: CountdownTimerPlugin;
+  private events: IcsEvent[];
+  private selected = new Set<IcsEvent>();
+  private onSubmit: (events: IcsEvent[]) => void;
+
+  constructor(plugin: CountdownTimerPlugin, events: IcsEvent[], onSubmit: (events: IcsEvent[]) => void) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.events = events;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const strings = this.plugin.getStrings();
+    const locale = this.plugin.getLocale();
+    const now = Date.now();
+    contentEl.empty();
+    contentEl.createEl("h2", { text: strings.importHeading });
+    contentEl.createEl("p", { text: strings.importHint, cls: "setting-item-description" });
+
+    this.events.forEach((event) => {
+      if (event.repeat || event.start.getTime() > now) {
+        this.selected.add(event);
+      }
+
+      const details = [formatZonedTargets(event.start, event.timeZone, locale, strings)];
+      if (event.repeat) {
+        details.push(formatString(strings.importRepeats, { rule: formatRecurrenceRule(event.repeat) }));
+      } else if (event.repeatUnsupported) {
+        details.push(strings.importRepeatUnsupported);
+      }
+
+      new Setting(contentEl)
+        .setName(event.summary || this.plugin.getDefaultLabel(strings))
+        .setDesc(details.join(" · "))
+        .addToggle((toggle) => {
+          toggle.setValue(this.selected.has(event));
+          toggle.onChange((value) => {
+            if (value) {
+              this.selected.add(event);
+            } else {
+              this.selected.delete(event);
+            }
+          });
+        });
+    });
+
+    const actionSetting = new Setting(contentEl);
+    actionSetting.addButton((btn) => {
+      btn
+        .setButtonText(strings.modalConfirm)
+        .setCta()
+        .onClick(() => {
+          const chosen = this.events.filter((event) => this.selected.has(event));
+          if (chosen.length) {
+            this.onSubmit(chosen);
+          }
+          this.close();
+        });
+    });
+    actionSetting.addExtraButton((btn) => {
+      btn.setIcon("x").setTooltip(strings.modalCancel).onClick(() => this.close());
+    });
+  }
+}
+
+/** Sidebar view listing every indexed countdown, soonest first. */
+class CountdownListView extends ItemView {
+  private plugin: CountdownTimerPlugin;
+  private remainingEls = new Map<HTMLElement, IndexedCountdown>();
+
+  constructor(leaf: WorkspaceLeaf, plugin: CountdownTimerPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return COUNTDOWN_LIST_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return this.plugin.getStrings().listViewTitle;
+  }
+
+  getIcon() {
+    return "timer";
+  }
+
+  async onOpen() {
+    this.render();
+    this.register(this.plugin.index.subscribe(() => this.render()));
+    this.register(this.plugin.clock.subscribe(() => this.updateRemaining(), { el: this.contentEl }));
+  }
+
+  async onClose() {
+    this.remainingEls.clear();
+  }
+
+  private render() {
+    const strings = this.plugin.getStrings();
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("obsidian-countdown__list");
+    this.remainingEls.clear();
+
+    const entries = sortByRemaining(this.plugin.index.getAll(), Date.now());
+    if (!entries.length) {
+      contentEl.createDiv({ cls: "obsidian-countdown__list-empty", text: strings.listEmpty });
+      return;
+    }
+
+    entries.forEach((entry) => {
+      const item = contentEl.createDiv({ cls: "obsidian-countdown__list-item" });
+      item.style.setProperty("--countdown-color", getCssColor(entry.color));
+      item.setAttr("tabindex", "0");
+
+      item.createSpan({ cls: "obsidian-countdown__list-chip" });
+      const body = item.createDiv({ cls: "obsidian-countdown__list-body" });
+      body.createDiv({ cls: "obsidian-countdown__list-label", text: entry.label });
+      body.createDiv({ cls: "obsidian-countdown__list-path", text: entry.path });
+      const remainingEl = item.createDiv({ cls: "obsidian-countdown__list-remaining" });
+      this.remainingEls.set(remainingEl, entry);
+
+      const open = () => void this.plugin.openCountdownLocation(entry.path, entry.lineStart);
+      item.addEventListener("click", open);
+      item.addEventListener("keydown", (evt) => {
+        if (evt.key === "Enter") {
+          open();
+        }
+      });
+    });
+
+    this.updateRemaining();
+  }
+
+  private updateRemaining() {
+    const strings = this.plugin.getStrings();
+    const now = Date.now();
+    this.remainingEls.forEach((entry, el) => {
+      const diffMs = getEntryTarget(entry, now).getTime() - now;
+      el.parentElement?.toggleClass(COUNTDOWN_EXPIRED_CLASS, diffMs <= 0);
+      el.setText(diffMs > 0 ? formatRemaining(diffMs, strings) : strings.expiredCaption);
+    });
+  }
+}
+
+/**
+ * Renders a `countdown-timeline` block: every milestone on a track, with the next
+ * upcoming one also shown as a full `CountdownView` above it.
+ */
+class CountdownTimelineView extends MarkdownRenderChild {
+  private plugin: CountdownTimerPlugin;
+  private strings: Translations;
+  private milestones: TimelineMilestone[];
+  private context: CountdownBlockContext | null;
+  private sourcePath: string;
+  private heroEl: HTMLElement;
+  private hero: CountdownView | null = null;
+  private heroIndex = -2;
+  private items: { itemEl: HTMLElement; statusEl: HTMLElement }[] = [];
+
+  constructor(
+    plugin: CountdownTimerPlugin,
+    containerEl: HTMLElement,
+    layout: TimelineLayout,
+    milestones: TimelineMilestone[],
+    context: CountdownBlockContext | null,
+    sourcePath: string
+  ) {
+    super(containerEl);
+    this.plugin = plugin;
+    this.strings = plugin.getStrings();
+    this.milestones = [...milestones].sort((a, b) => a.target.getTime() - b.target.getTime());
+    this.context = context;
+    this.sourcePath = sourcePath;
+
+    containerEl.addClass(`is-${layout}`);
+    this.heroEl = containerEl.createDiv({ cls: "obsidian-countdown-timeline__hero" });
+    const trackEl = containerEl.createDiv({ cls: "obsidian-countdown-timeline__track" });
+    const locale = plugin.getLocale();
+    this.milestones.forEach((milestone) => {
+      const itemEl = trackEl.createDiv({ cls: "obsidian-countdown-timeline__item" });
+      itemEl.style.setProperty("--countdown-color", getCssColor(this.getColor(milestone)));
+      itemEl.createDiv({ cls: "obsidian-countdown-timeline__dot" });
+      const bodyEl = itemEl.createDiv({ cls: "obsidian-countdown-timeline__body" });
+      bodyEl.createDiv({ cls: "obsidian-countdown-timeline__label", text: milestone.label ?? plugin.getDefaultLabel(this.strings) });
+      bodyEl.createDiv({ cls: "obsidian-countdown-timeline__date", text: milestone.target.toLocaleString(locale) });
+      const statusEl = bodyEl.createDiv({ cls: "obsidian-countdown-timeline__status" });
+      if (context) {
+        itemEl.addClass("is-editable");
+        itemEl.setAttribute("title", this.strings.toolbarEdit);
+        itemEl.onclick = () => this.openEditModal(milestone);
+      }
+      this.items.push({ itemEl, statusEl });
+    });
+  }
+
+  onload() {
+    this.tick();
+    this.register(
+      this.plugin.clock.subscribe(() => this.tick(), {
+        el: this.containerEl,
+        precision: () => getUnitsPrecision(this.plugin.settings.defaultUnits)
+      })
+    );
+  }
+
+  /** Milestones without their own colour cycle through the palette, in chronological order. */
+  private getColor(milestone: TimelineMilestone) {
+    const palette = this.plugin.getColorPalette();
+    return milestone.color ?? palette[this.milestones.indexOf(milestone) % palette.length];
+  }
+
+  private tick() {
+    const now = new Date();
+    const nextIndex = this.milestones.findIndex((milestone) => milestone.target.getTime() > now.getTime());
+    const units = this.plugin.settings.defaultUnits;
+
+    this.milestones.forEach((milestone, index) => {
+      const { itemEl, statusEl } = this.items[index];
+      const done = nextIndex === -1 || index < nextIndex;
+      itemEl.toggleClass("is-done", done);
+      itemEl.toggleClass("is-next", index === nextIndex);
+      statusEl.setText(
+        done
+          ? this.strings.timelineDone
+          : formatCompactDuration(breakdownDuration(now, milestone.target, units), units, this.strings)
+      );
+    });
+
+    if (nextIndex !== this.heroIndex) {
+      this.heroIndex = nextIndex;
+      this.renderHero(nextIndex);
+    }
+  }
+
+  private renderHero(index: number) {
+    if (this.hero) {
+      this.removeChild(this.hero);
+      this.hero = null;
+    }
+    this.heroEl.empty();
+
+    const milestone = this.milestones[index];
+    if (!milestone) {
+      this.heroEl.createDiv({ cls: "obsidian-countdown-timeline__complete", text: this.strings.timelineComplete });
+      return;
+    }
+
+    const { settings } = this.plugin;
+    // No block context: the hero is edited through its milestone, not rewritten as a countdown block.
+    this.hero = new CountdownView(this.plugin, this.heroEl.createDiv({ cls: "obsidian-countdown" }), {
+      target: milestone.target,
+      label: milestone.label ?? this.plugin.getDefaultLabel(this.strings),
+      color: this.getColor(milestone),
+      expiry: DEFAULT_EXPIRY_MODE,
+      expiryMessage: "",
+      mode: DEFAULT_MODE,
+      stopwatch: { elapsedMs: 0, startedAt: null },
+      repeat: null,
+      timeZone: null,
+      targetReference: null,
+      sourcePath: this.sourcePath,
+      start: null,
+      progressStyle: "bar",
+      pausedRemaining: null,
+      pinned: false,
+      units: settings.defaultUnits,
+      format: settings.defaultFormat,
+      hideLeadingZeros: settings.hideLeadingZeros,
+      style: settings.defaultStyle,
+      calendar: "calendar",
+      context: null,
+      strings: this.strings
+    });
+    this.addChild(this.hero);
+  }
+
+  private openEditModal(milestone: TimelineMilestone) {
+    const context = this.context;
+    if (!context) {
+      return;
+    }
+    this.plugin.openInlineEditModal(
+      milestone,
+      (spec) => this.plugin.updateTimelineMilestone(context, milestone, spec),
+      this.getColor(milestone)
+    );
+  }
+}
+
+/** Reading-view inline countdown; the pill has already replaced the `<code>` element. */
+class InlineCountdownChild extends MarkdownRenderChild {
+  private plugin: CountdownTimerPlugin;
+  private spec: InlineCountdownSpec;
+  private source: string;
+  private getSection: () => MarkdownSectionInformation | null;
+  private sourcePath: string;
+  private occurrence: number;
+
+  constructor(
+    plugin: CountdownTimerPlugin,
+    pillEl: HTMLElement,
+    spec: InlineCountdownSpec,
+    source: string,
+    getSection: () => MarkdownSectionInformation | null,
+    sourcePath: string,
+    occurrence: number
+  ) {
+    super(pillEl);
+    this.plugin = plugin;
+    this.spec = spec;
+    this.source = source;
+    this.getSection = getSection;
+    this.sourcePath = sourcePath;
+    this.occurrence = occurrence;
+  }
+
+  onload() {
+    this.registerDomEvent(this.containerEl, "click", (evt) => {
+      evt.preventDefault();
+      this.openEditModal();
+    });
+    this.register(subscribeInlineCountdownEl(this.containerEl, this.plugin, this.spec));
+  }
+
+  private openEditModal() {
+    const section = this.getSection();
+    if (!section) {
+      new Notice(this.plugin.getStrings().applyError);
+      return;
+    }
+
+    this.plugin.openInlineEditModal(this.spec, (next) =>
+      this.plugin.updateInlineCountdown(this.sourcePath, section, this.source, this.occurrence, formatInlineCountdown(next))
+    );
+  }
+}
+
+/** Live Preview counterpart of `InlineCountdownChild`; the source is shown again while the cursor is inside it. */
+class InlineCountdownWidget extends WidgetType {
+  private plugin: CountdownTimerPlugin;
+  private spec: InlineCountdownSpec;
+  private source: string;
+
+  constructor(plugin: CountdownTimerPlugin, spec: InlineCountdownSpec, source: string) {
+    super();
+    this.plugin = plugin;
+    this.spec = spec;
+    this.source = source;
+  }
+
+  eq(other: InlineCountdownWidget) {
+    return other.source === this.source;
+  }
+
+  toDOM(view: EditorView) {
+    const pillEl = createInlineCountdownEl(this.plugin, this.spec);
+    pillEl.onclick = (evt) => {
+      evt.preventDefault();
+      this.plugin.openInlineEditModal(this.spec, (next) => {
+        // The document may have shifted since the widget was drawn, so locate it again.
+        const from = view.posAtDOM(pillEl);
+        const previous = `\`${this.source}\``;
+        if (view.state.sliceDoc(from, from + previous.length) !== previous) {
+          new Notice(this.plugin.getStrings().applyError);
+          return;
+        }
+        view.dispatch({ changes: { from, to: from + previous.length, insert: `\`${formatInlineCountdown(next)}\`` } });
+      });
+    };
+    inlineCountdownSubscriptions.set(pillEl, subscribeInlineCountdownEl(pillEl, this.plugin, this.spec));
+    return pillEl;
+  }
+
+  destroy(dom: HTMLElement) {
+    inlineCountdownSubscriptions.get(dom)?.();
+    inlineCountdownSubscriptions.delete(dom);
+  }
+}
+
+/** Clock unsubscribers of Live Preview pills, released when CodeMirror destroys the widget. */
+const inlineCountdownSubscriptions = new WeakMap<HTMLElement, () => void>();
+
+function createInlineCountdownExtension(plugin: CountdownTimerPlugin) {
+  return ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+
+      constructor(view: EditorView) {
+        this.decorations = this.build(view);
+      }
+
+      update(update: ViewUpdate) {
+        const modeChanged =
+          update.startState.field(editorLivePreviewField) !== update.state.field(editorLivePreviewField);
+        // Obsidian parses the note in the background, so code found late needs its pills removed.
+        const treeChanged = syntaxTree(update.startState) !== syntaxTree(update.state);
+        if (update.docChanged || update.viewportChanged || update.selectionSet || modeChanged || treeChanged) {
+          this.decorations = this.build(update.view);
+        }
+      }
+
+      build(view: EditorView): DecorationSet {
+        const builder = new RangeSetBuilder<Decoration>();
+        if (!view.state.field(editorLivePreviewField)) {
+          return builder.finish();
+        }
+
+        const selection = view.state.selection.ranges;
+        for (const { from, to } of view.visibleRanges) {
+          const text = view.state.sliceDoc(from, to);
+          for (const match of text.matchAll(INLINE_COUNTDOWN_SOURCE_PATTERN)) {
+            const start = from + (match.index ?? 0);
+            const end = start + match[0].length;
+            const spec = parseInlineCountdown(match[1]);
+            if (!spec || selection.some((range) => range.from <= end && range.to >= start)) {
+              continue;
+            }
+            // Inline countdowns are inline code themselves; only code blocks hide them.
+            if (isInsideCodeBlock(view.state, start)) {
+              continue;
+            }
+            builder.add(start, end, Decoration.replace({ widget: new InlineCountdownWidget(plugin, spec, match[1]) }));
+          }
+        }
+        return builder.finish();
+      }
+    },
+    { decorations: (value) => value.decorations }
+  );
+}
+
+/** Reading-view countdown after a task's due date; it only ticks, as the task line owns the date. */
+class TaskCountdownChild extends MarkdownRenderChild {
+  private plugin: CountdownTimerPlugin;
+  private due: Date;
+
+  constructor(plugin: CountdownTimerPlugin, pillEl: HTMLElement, due: Date) {
+    super(pillEl);
+    this.plugin = plugin;
+    this.due = due;
+  }
+
+  onload() {
+    const spec = { target: this.due, label: null, color: null };
+    this.register(subscribeInlineCountdownEl(this.containerEl, this.plugin, spec));
+  }
+}
+
+class TaskCountdownWidget extends WidgetType {
+  private plugin: CountdownTimerPlugin;
+  private due: Date;
+
+  constructor(plugin: CountdownTimerPlugin, due: Date) {
+    super();
+    this.plugin = plugin;
+    this.due = due;
+  }
+
+  eq(other: TaskCountdownWidget) {
+    return other.due.getTime() === this.due.getTime();
+  }
+
+  toDOM() {
+    const spec = { target: this.due, label: null, color: null };
+    const pillEl = createInlineCountdownEl(this.plugin, spec, false);
+    pillEl.addClass(TASK_COUNTDOWN_CLASS);
+    inlineCountdownSubscriptions.set(pillEl, subscribeInlineCountdownEl(pillEl, this.plugin, spec));
+    return pillEl;
+  }
+
+  destroy(dom: HTMLElement) {
+    inlineCountdownSubscriptions.get(dom)?.();
+    inlineCountdownSubscriptions.delete(dom);
+  }
+}
+
+/**
+ * Whether Obsidian's Markdown parser puts `pos` in a fenced code block, where countdown
+ * syntax is left as written. Its node names carry the token classes, such as `hmd-codeblock`.
+ */
+function isInsideCodeBlock(state: EditorState, pos: number) {
+  return syntaxTree(state).resolveInner(pos, 1).name.includes("codeblock");
+}
+
+function createTaskCountdownExtension(plugin: CountdownTimerPlugin) {
+  return ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+
+      constructor(view: EditorView) {
+        this.decorations = this.build(view);
+      }
+
+      update(update: ViewUpdate) {
+        const modeChanged =
+          update.startState.field(editorLivePreviewField) !== update.state.field(editorLivePreviewField);
+        // `workspace.updateOptions()` reconfigures every editor when the setting is toggled.
+        const reconfigured = update.transactions.some((transaction) => transaction.reconfigured);
+        const treeChanged = syntaxTree(update.startState) !== syntaxTree(update.state);
+        if (update.docChanged || update.viewportChanged || modeChanged || reconfigured || treeChanged) {
+          this.decorations = this.build(update.view);
+        }
+      }
+
+      build(view: EditorView): DecorationSet {
+        const builder = new RangeSetBuilder<Decoration>();
+        if (!plugin.settings.taskCountdowns || !view.state.field(editorLivePreviewField)) {
+          return builder.finish();
+        }
+
+        const { doc } = view.state;
+        for (const { from, to } of view.visibleRanges) {
+          for (let number = doc.lineAt(from).number; number <= doc.lineAt(to).number; number++) {
+            const line = doc.line(number);
+            const task = parseTaskDueDate(line.text);
+            if (task && !task.done && !isInsideCodeBlock(view.state, line.from)) {
+              builder.add(line.to, line.to, Decoration.widget({ widget: new TaskCountdownWidget(plugin, task.due), side: 1 }));
+            }
+          }
+        }
+        return builder.finish();
+      }
+    },
+    { decorations: (value) => value.decorations }
+  );
+}
+
+function createInlineCountdownEl(plugin: CountdownTimerPlugin, spec: InlineCountdownSpec, withLabel = true) {
+  const strings = plugin.getStrings();
+  const pillEl = createSpan({ cls: "obsidian-countdown-inline" });
+  pillEl.style.setProperty("--countdown-color", getCssColor(spec.color ?? plugin.settings.defaultColor));
+  pillEl.setAttribute("title", spec.target.toLocaleString(plugin.getLocale()));
+  if (withLabel) {
+    pillEl.createSpan({ cls: "obsidian-countdown-inline__label", text: spec.label ?? plugin.getDefaultLabel(strings) });
+  }
+  pillEl.createSpan({ cls: "obsidian-countdown-inline__value" });
+  updateInlineCountdownEl(pillEl, plugin, spec);
+  return pillEl;
+}
+
+/** A row of palette buttons. Returns a function that marks the button matching a colour as selected. */
+function renderColorSwatches(parent: HTMLElement, palette: string[], onPick: (color: string) => void) {
+  const row = parent.createDiv({ cls: "obsidian-countdown__color-options" });
+  const options = palette.map((color) => {
+    const option = row.createEl("button", { cls: COLOR_OPTION_CLASS });
+    option.setAttr("type", "button");
+    option.setAttribute("aria-label", color);
+    option.style.setProperty("--countdown-option-color", getCssColor(color));
+    option.onclick = (evt) => {
+      evt.preventDefault();
+      onPick(color);
+    };
+    return { color, option };
+  });
+  return (selected: string) => {
+    options.forEach(({ color, option }) => option.toggleClass("is-selected", colorsEqual(color, selected)));
+  };
+}
+
+/** Keeps a pill ticking on the shared clock; returns the unsubscriber. */
+function subscribeInlineCountdownEl(pillEl: HTMLElement, plugin: CountdownTimerPlugin, spec: InlineCountdownSpec) {
+  return plugin.clock.subscribe(() => updateInlineCountdownEl(pillEl, plugin, spec), {
+    el: pillEl,
+    precision: () => getUnitsPrecision(plugin.settings.defaultUnits)
+  });
+}
+
+function getUnitsPrecision(units: CountdownUnitKey[]): ClockPrecision {
+  return units.includes("seconds") ? "second" : "minute";
+}
+
+function updateInlineCountdownEl(pillEl: HTMLElement, plugin: CountdownTimerPlugin, spec: InlineCountdownSpec) {
+  const strings = plugin.getStrings();
+  const now = new Date();
+  const expired = spec.target.getTime() <= now.getTime();
+  const units = plugin.settings.defaultUnits;
+  const value = expired
+    ? strings.expiredCaption
+    : formatCompactDuration(breakdownDuration(now, spec.target, units), units, strings);
+  pillEl.toggleClass(COUNTDOWN_EXPIRED_CLASS, expired);
+  pillEl.querySelector(".obsidian-countdown-inline__value")?.setText(value);
+}
+
+class CountdownSettingTab extends PluginSettingTab {
+  private plugin: CountdownTimerPlugin;
+
+  constructor(app: App, plugin: CountdownTimerPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display() {
+    const { containerEl } = this;
+    const strings = this.plugin.getStrings();
+
+    containerEl.empty();
+
+    new Setting(containerEl)
+      .setName(strings.settingsDefaultLabel)
+      .setDesc(strings.labelHint)
+      .addText((text) =>
+        text.setValue(this.plugin.settings.defaultLabel).onChange(async (value) => {
+          this.plugin.settings.defaultLabel = value.trim();
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(strings.settingsDefaultDuration)
+      .setDesc(strings.targetHint)
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "1";
+        text.setValue(String(this.plugin.settings.defaultDurationMinutes));
+        text.onChange(async (value) => {
+          const parsed = Number(value);
+          if (!Number.isFinite(parsed) || parsed <= 0) {
+            return;
+          }
+          this.plugin.settings.defaultDurationMinutes = Math.floor(parsed);
+          await this.plugin.saveSettings();
+        });
+      });
+
+    const colorSetting = new Setting(containerEl)
+      .setName(strings.settingsDefaultColour)
+      .setDesc(strings.settingsDefaultColourHint);
+    let colorText: TextComponent | null = null;
+    const markDefaultColor = renderColorSwatches(colorSetting.controlEl, this.plugin.getColorPalette(), async (color) => {
+      this.plugin.settings.defaultColor = color;
+      await this.plugin.saveSettings();
+      colorText?.setValue(color);
+      markDefaultColor(color);
+    });
+    colorSetting.addText((text) => {
+      colorText = text;
+      text.setValue(this.plugin.settings.defaultColor);
+      text.onChange(async (value) => {
+        const normalised = normaliseColor(value);
+        if (!normalised) {
+          return;
+        }
+        this.plugin.settings.defaultColor = normalised;
+        await this.plugin.saveSettings();
+        markDefaultColor(normalised);
+      });
+    });
+    markDefaultColor(this.plugin.settings.defaultColor);
+
+    new Setting(containerEl).setName(strings.settingsDisplayHeading).setHeading();
+
+    const unitsSetting = new Setting(containerEl)
+      .setName(strings.settingsDefaultUnits)
+      .setDesc(strings.settingsDefaultUnitsHint);
+    const unitOptions = unitsSetting.controlEl.createDiv({ cls: "obsidian-countdown__unit-options" });
+    UNIT_KEYS.forEach((key) => {
+      const button = unitOptions.createEl("button", {
+        cls: "obsidian-countdown__unit-option",
+        text: getUnitLabel(key, strings)
+      });
+      button.setAttr("type", "button");
+      button.toggleClass("is-selected", this.plugin.settings.defaultUnits.includes(key));
+      button.onclick = async (evt) => {
+        evt.preventDefault();
+        const current = this.plugin.settings.defaultUnits;
+        const selected = !current.includes(key);
+        const next = UNIT_KEYS.filter((unit) => (unit === key ? selected : current.includes(unit)));
+        // At least one unit has to stay selected.
+        if (!next.length) {
+          return;
+        }
+        this.plugin.settings.defaultUnits = next;
+        button.toggleClass("is-selected", selected);
+        await this.plugin.saveSettings();
+      };
+    });
+
+    new Setting(containerEl)
+      .setName(strings.settingsDefaultFormat)
+      .setDesc(strings.settingsDefaultFormatHint)
+      .addDropdown((dropdown) => {
+        dropdown.addOption("digits", strings.formatDigits);
+        dropdown.addOption("compact", strings.formatCompact);
+        dropdown.addOption("human", strings.formatHuman);
+        dropdown.setValue(this.plugin.settings.defaultFormat);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.defaultFormat = normaliseDisplayFormat(value) ?? DEFAULT_SETTINGS.defaultFormat;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName(strings.settingsDefaultStyle)
+      .setDesc(strings.settingsDefaultStyleHint)
+      .addDropdown((dropdown) => {
+        dropdown.addOption("ribbon", strings.styleRibbon);
+        dropdown.addOption("minimal", strings.styleMinimal);
+        dropdown.addOption("flip", strings.styleFlip);
+        dropdown.addOption("hero", strings.styleHero);
+        dropdown.setValue(this.plugin.settings.defaultStyle);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.defaultStyle = normaliseBlockStyle(value) ?? DEFAULT_SETTINGS.defaultStyle;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName(strings.settingsHideLeadingZeros)
+      .setDesc(strings.settingsHideLeadingZerosHint)
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.hideLeadingZeros).onChange(async (value) => {
+          this.plugin.settings.hideLeadingZeros = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(strings.settingsTaskCountdowns)
+      .setDesc(strings.settingsTaskCountdownsHint)
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.taskCountdowns).onChange(async (value) => {
+          this.plugin.settings.taskCountdowns = value;
+          await this.plugin.saveSettings();
+          // Reconfigures open editors; the task extension rebuilds its pills on reconfiguration.
+          this.app.workspace.updateOptions();
+        })
+      );
+
+    this.renderPaletteSettings(containerEl, strings);
+    this.renderLanguageSettings(containerEl, strings);
+    this.renderWorkingTimeSettings(containerEl, strings);
+
+    new Setting(containerEl).setName(strings.settingsNotificationsHeading).setHeading();
+
+    new Setting(containerEl)
+      .setName(strings.settingsNotificationsEnabled)
+      .setDesc(strings.settingsNotificationsEnabledHint)
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.notificationsEnabled).onChange(async (value) => {
+          this.plugin.settings.notificationsEnabled = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(strings.settingsSystemNotifications)
+      .setDesc(strings.settingsSystemNotificationsHint)
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.systemNotifications).onChange(async (value) => {
+          if (value && typeof Notification !== "undefined" && Notification.permission === "default") {
+            await Notification.requestPermission();
+          }
+          this.plugin.settings.systemNotifications = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(strings.settingsNotificationSound)
+      .setDesc(strings.settingsNotificationSoundHint)
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.notificationSound).onChange(async (value) => {
+          this.plugin.settings.notificationSound = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(strings.settingsReminders)
+      .setDesc(strings.settingsRemindersHint)
+      .addText((text) => {
+        text.setPlaceholder("1d, 15m");
+        text.setValue(formatLeadTimes(this.plugin.settings.reminderLeadMinutes));
+        text.onChange(async (value) => {
+          const parsed = parseLeadTimes(value);
+          if (!parsed) {
+            return;
+          }
+          this.plugin.settings.reminderLeadMinutes = parsed;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl).setName(strings.settingsQuickTimersHeading).setHeading();
+
+    new Setting(containerEl)
+      .setName(strings.settingsCustomPresets)
+      .setDesc(strings.settingsCustomPresetsHint)
+      .addText((text) => {
+        text.setPlaceholder("10m, 1h30m");
+        text.setValue(formatLeadTimes([...this.plugin.settings.quickPresetMinutes].sort((a, b) => a - b)));
+        text.onChange(async (value) => {
+          const parsed = parseLeadTimes(value);
+          if (!parsed) {
+            return;
+          }
+          this.plugin.settings.quickPresetMinutes = parsed.sort((a, b) => a - b);
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName(strings.settingsQuickTimerInsert)
+      .setDesc(strings.settingsQuickTimerInsertHint)
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.quickTimerInsertBlock).onChange(async (value) => {
+          this.plugin.settings.quickTimerInsertBlock = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    this.addNumberSetting(containerEl, strings.settingsPomodoroWork, null, "pomodoroWorkMinutes");
+    this.addNumberSetting(containerEl, strings.settingsPomodoroBreak, null, "pomodoroBreakMinutes");
+    this.addNumberSetting(containerEl, strings.settingsPomodoroLongBreak, null, "pomodoroLongBreakMinutes");
+    this.addNumberSetting(
+      containerEl,
+      strings.settingsPomodoroLongBreakEvery,
+      strings.settingsPomodoroLongBreakEveryHint,
+      "pomodoroLongBreakEvery"
+    );
+
+    new Setting(containerEl)
+      .setName(strings.settingsPomodoroLog)
+      .setDesc(strings.settingsPomodoroLogHint)
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.pomodoroLogToDailyNote).onChange(async (value) => {
+          this.plugin.settings.pomodoroLogToDailyNote = value;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  private renderLanguageSettings(containerEl: HTMLElement, strings: Translations) {
+    new Setting(containerEl).setName(strings.settingsLanguageHeading).setHeading();
+
+    const appLanguage = getAppLanguage();
+    new Setting(containerEl)
+      .setName(strings.settingsLanguage)
+      .setDesc(strings.settingsLanguageHint)
+      .addDropdown((dropdown) => {
+        dropdown.addOption(
+          "",
+          strings.settingsLanguageAuto.replace("{language}", LOCALES[appLanguage.toLowerCase()]?.name ?? appLanguage)
+        );
+        Object.entries(LOCALES).forEach(([code, locale]) => dropdown.addOption(code, locale.name));
+        this.plugin.getOverrideLocales().forEach((code) => dropdown.addOption(code, code));
+        dropdown.setValue(this.plugin.settings.language);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.language = value;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName(strings.settingsTranslationFile)
+      .setDesc(strings.settingsTranslationFileHint)
+      .addText((text) => {
+        text.setPlaceholder("countdown-translations.json");
+        text.setValue(this.plugin.settings.translationFile);
+        text.onChange(async (value) => {
+          this.plugin.settings.translationFile = value.trim();
+          await this.plugin.saveSettings();
+        });
+        // Reads the file once the path is committed rather than on every keystroke.
+        text.inputEl.addEventListener("change", () => void this.reloadTranslations());
+      })
+      .addExtraButton((btn) =>
+        btn
+          .setIcon("refresh-cw")
+          .setTooltip(strings.settingsTranslationFileReload)
+          .onClick(() => void this.reloadTranslations())
+      );
+  }
+
+  private async reloadTranslations() {
+    await this.plugin.loadTranslationOverrides();
+    this.display();
+  }
+
+  private renderWorkingTimeSettings(containerEl: HTMLElement, strings: Translations) {
+    new Setting(containerEl).setName(strings.settingsWorkingTimeHeading).setHeading();
+
+    const workdaysSetting = new Setting(containerEl).setName(strings.settingsWorkdays).setDesc(strings.settingsWorkdaysHint);
+    const weekdayFormat = new Intl.DateTimeFormat(this.plugin.getLocale(), { weekday: "short" });
+    const weekdays = workdaysSetting.controlEl.createDiv({ cls: "obsidian-countdown__unit-options" });
+    // Monday first; 2023-01-01 was a Sunday.
+    [1, 2, 3, 4, 5, 6, 0].forEach((weekday) => {
+      const button = weekdays.createEl("button", {
+        cls: "obsidian-countdown__unit-option",
+        text: weekdayFormat.format(new Date(2023, 0, 1 + weekday))
+      });
+      button.setAttr("type", "button");
+      button.toggleClass("is-selected", this.plugin.settings.workdays.includes(weekday));
+      button.onclick = async (evt) => {
+        evt.preventDefault();
+        const current = this.plugin.settings.workdays;
+        const selected = !current.includes(weekday);
+        const next = [0, 1, 2, 3, 4, 5, 6].filter((day) => (day === weekday ? selected : current.includes(day)));
+        // At least one working day has to stay selected.
+        if (!next.length) {
+          return;
+        }
+        this.plugin.settings.workdays = next;
+        button.toggleClass("is-selected", selected);
+        await this.plugin.saveSettings();
+      };
+    });
+
+    let startText: TextComponent | null = null;
+    let endText: TextComponent | null = null;
+    const saveHours = async () => {
+      const start = startText?.getValue().trim() ?? "";
+      const end = endText?.getValue().trim() ?? "";
+      const startMinutes = parseWorkTime(start);
+      const endMinutes = parseWorkTime(end);
+      if (startMinutes === null || endMinutes === null || endMinutes <= startMinutes) {
+        return;
+      }
+      this.plugin.settings.workdayStart = start;
+      this.plugin.settings.workdayEnd = end;
+      await this.plugin.saveSettings();
+    };
+    new Setting(containerEl)
+      .setName(strings.settingsWorkHours)
+      .setDesc(strings.settingsWorkHoursHint)
+      .addText((text) => {
+        startText = text;
+        text.setPlaceholder(DEFAULT_SETTINGS.workdayStart);
+        text.setValue(this.plugin.settings.workdayStart);
+        text.onChange(saveHours);
+      })
+      .addText((text) => {
+        endText = text;
+        text.setPlaceholder(DEFAULT_SETTINGS.workdayEnd);
+        text.setValue(this.plugin.settings.workdayEnd);
+        text.onChange(saveHours);
+      });
+
+    new Setting(containerEl)
+      .setName(strings.settingsHolidays)
+      .setDesc(strings.settingsHolidaysHint)
+      .setClass("obsidian-countdown__holidays")
+      .addTextArea((text) => {
+        text.setPlaceholder("2026-10-01 2026-10-07\n2026-10-11 work");
+        text.setValue(formatHolidayLines(this.plugin.settings));
+        text.inputEl.rows = 6;
+        text.onChange((value) => void this.saveHolidays(parseHolidayLines(value)));
+      })
+      .addButton((btn) => btn.setButtonText(strings.settingsHolidaysImport).onClick(() => this.openHolidayImport()))
+      .addButton((btn) =>
+        btn.setButtonText(strings.settingsHolidaysClear).onClick(async () => {
+          await this.saveHolidays(new Map());
+          this.display();
+        })
+      );
+  }
+
+  /** Picks a holiday file from the vault and adds its dates to the ones already set. */
+  private openHolidayImport() {
+    const strings = this.plugin.getStrings();
+    const files = this.app.vault
+      .getFiles()
+      .filter((file) => HOLIDAY_FILE_EXTENSIONS.includes(file.extension.toLowerCase()));
+    if (!files.length) {
+      new Notice(strings.holidaysNoFiles);
+      return;
+    }
+
+    new VaultFileSuggestModal(this.app, files, strings.holidaysChooseFile, async (file) => {
+      const imported = parseHolidayFile(file.extension, await this.app.vault.read(file));
+      if (!imported.size) {
+        new Notice(formatString(strings.holidaysImportEmpty, { file: file.name }));
+        return;
+      }
+      await this.saveHolidays(new Map([...this.plugin.getWorkingCalendar().exceptions, ...imported]));
+      const workdays = [...imported.values()].filter(Boolean).length;
+      new Notice(
+        formatString(strings.holidaysImportDone, {
+          holidays: String(imported.size - workdays),
+          workdays: String(workdays)
+        })
+      );
+      this.display();
+    }).open();
+  }
+
+  private async saveHolidays(dates: HolidayDates) {
+    const sorted = [...dates].sort(([a], [b]) => a.localeCompare(b));
+    this.plugin.settings.holidays = sorted.filter(([, worked]) => !worked).map(([date]) => date);
+    this.plugin.settings.extraWorkdays = sorted.filter(([, worked]) => worked).map(([date]) => date);
+    await this.plugin.saveSettings();
+  }
+
+  private renderPaletteSettings(containerEl: HTMLElement, strings: Translations) {
+    new Setting(containerEl).setName(strings.settingsPaletteHeading).setDesc(strings.settingsPaletteHint).setHeading();
+
+    const palette = this.plugin.settings.colorPalette;
+    const moved = (from: number, to: number) => {
+      const next = [...palette];
+      next.splice(to, 0, ...next.splice(from, 1));
+      return next;
+    };
+
+    palette.forEach((color, index) => {
+      const setting = new Setting(containerEl).setName(color);
+      const swatch = createSpan({ cls: "obsidian-countdown__palette-swatch" });
+      swatch.style.setProperty("--countdown-option-color", getCssColor(normaliseColor(color) ?? color));
+      setting.nameEl.prepend(swatch);
+      setting
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("arrow-up")
+            .setTooltip(strings.paletteMoveUp)
+            .setDisabled(index === 0)
+            .onClick(() => void this.savePalette(moved(index, index - 1)))
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("arrow-down")
+            .setTooltip(strings.paletteMoveDown)
+            .setDisabled(index === palette.length - 1)
+            .onClick(() => void this.savePalette(moved(index, index + 1)))
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("trash-2")
+            .setTooltip(strings.paletteRemove)
+            .onClick(() => void this.savePalette(palette.filter((_, other) => other !== index)))
+        );
+    });
+
+    let input = "";
+    new Setting(containerEl)
+      .setName(strings.settingsPaletteAdd)
+      .addText((text) => {
+        text.setPlaceholder("#3370FF");
+        text.onChange((value) => (input = value));
+      })
+      .addButton((btn) =>
+        btn.setButtonText(strings.settingsPaletteAddButton).onClick(async () => {
+          const color = normaliseColor(input);
+          if (!color) {
+            new Notice(strings.colorInvalid);
+            return;
+          }
+          await this.savePalette([...palette, color]);
+        })
+      );
+
+    new Setting(containerEl).addButton((btn) =>
+      btn.setButtonText(strings.settingsPaletteReset).onClick(() => void this.savePalette([...COLOR_PRESETS]))
+    );
+  }
+
+  private async savePalette(palette: string[]) {
+    this.plugin.settings.colorPalette = palette;
+    await this.plugin.saveSettings();
+    this.display();
+  }
+
+  /** A positive whole-number setting; invalid input is ignored until it is fixed. */
+  private addNumberSetting(
+    containerEl: HTMLElement,
+    name: string,
+    desc: string | null,
+    key: "pomodoroWorkMinutes" | "pomodoroBreakMinutes" | "pomodoroLongBreakMinutes" | "pomodoroLongBreakEvery"
+  ) {
+    const setting = new Setting(containerEl).setName(name);
+    if (desc) {
+      setting.setDesc(desc);
+    }
+    setting.addText((text) => {
+      text.inputEl.type = "number";
+      text.inputEl.min = "1";
+      text.setValue(String(this.plugin.settings[key]));
+      text.onChange(async (value) => {
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed <= 0) {
+          return;
+        }
+        this.plugin.settings[key] = Math.floor(parsed);
+        await this.plugin.saveSettings();
+      });
+    });
+  }
+}
+
+/**
+ * Ordered `key: value` pairs from a countdown block. Keys are lower-cased;
+ * insertion order is kept so unknown keys round-trip where they were written.
+ */
+type CountdownBlockFields = Map<string, string>;
+
+/**
+ * Keys written by `serializeCountdownLines`; everything else, including read-only
+ * keys such as `notify`, is carried through untouched when a block is rewritten.
+ */
+const KNOWN_BLOCK_KEYS = [
+  "mode",
+  "target",
+  "tz",
+  "start",
+  "paused",
+  "pinned",
+  "repeat",
+  "label",
+  "color",
+  "end",
+  "message",
+  "elapsed",
+  "started"
+];
+
+const BLOCK_FIELD_PATTERN = /^([A-Za-z][\w-]*)\s*:(.*)$/;
+
+/**
+ * `resolveReference` looks up the property behind `target: {{due}}`-style references;
+ * without one, referenced targets are treated as missing.
+ */
+function parseCountdownSource(
+  source: string,
+  fallbackLabel: string,
+  fallbackColor: string,
+  resolveReference: (reference: TargetReference) => string | null = () => null,
+  templateBase = new Date()
+) {
+  const fields = parseBlockFields(source);
+  const timeZone = normaliseTimeZone(fields.get("tz"));
+  const targetReference = parseTargetReference(fields.get("target"));
+  const targetInput = targetReference ? normalisePropertyDate(resolveReference(targetReference)) : fields.get("target");
+  const targetTemplate = targetReference ? null : parseTemplateTarget(fields.get("target"));
+  const resolvedTarget = targetTemplate
+    ? { date: resolveTemplateTarget(targetTemplate, templateBase, timeZone), relative: false }
+    : parseTargetInput(targetInput, new Date(), timeZone);
+  const target = resolvedTarget?.date ?? null;
+  // Only literal targets are pinned; a relative property value is the note's business.
+  const targetIsRelative = !targetReference && (resolvedTarget?.relative ?? false);
+  const startTemplate = parseTemplateTarget(fields.get("start"));
+  const resolvedStart = startTemplate
+    ? { date: resolveTemplateTarget(startTemplate, templateBase, timeZone), relative: false }
+    : parseTargetInput(fields.get("start"), new Date(), timeZone);
+  const start = resolvedStart?.date ?? null;
+  const startIsRelative = resolvedStart?.relative ?? false;
+  // Template placeholders are pinned by the index once the note is no longer a template.
+  const hasTemplate = Boolean(targetTemplate || startTemplate);
+  const progressStyle = normaliseProgressStyle(fields.get("progress")) ?? "bar";
+  const label = (fields.get("label") || fallbackLabel).trim();
+  const color = normaliseColor(fields.get("color")) ?? fallbackColor;
+  const expiry = normaliseExpiryMode(fields.get("end")) ?? DEFAULT_EXPIRY_MODE;
+  const expiryMessage = expiry === "message" ? fields.get("message") ?? "" : "";
+  const notify = parseBooleanField(fields.get("notify")) ?? true;
+  const pinned = parseBooleanField(fields.get("pinned")) ?? false;
+  const mode = normaliseMode(fields.get("mode")) ?? DEFAULT_MODE;
+  const stopwatch = parseStopwatchState(fields);
+  const repeat = mode === "countdown" ? parseRecurrenceRule(fields.get("repeat")) : null;
+  // `paused` holds the seconds that were left when the countdown was paused.
+  // An empty or non-numeric value is ignored rather than read as zero seconds left.
+  const pausedText = fields.get("paused")?.trim() ?? "";
+  const pausedSeconds = /^-?\d+(?:\.\d+)?$/.test(pausedText) ? Number(pausedText) : null;
+  const pausedRemaining = mode === "countdown" && pausedSeconds !== null ? Math.max(0, pausedSeconds) * 1000 : null;
+  // Display keys are optional; `null` means "use the plugin default".
+  const units = parseUnitList(fields.get("units"));
+  const format = normaliseDisplayFormat(fields.get("format"));
+  const hideLeadingZeros = parseBooleanField(fields.get("hide-zeros"));
+  const style = normaliseBlockStyle(fields.get("style"));
+  const calendar = normaliseCalendar(fields.get("calendar"));
+
+  return {
+    target,
+    targetIsRelative,
+    targetReference,
+    start,
+    startIsRelative,
+    hasTemplate,
+    progressStyle,
+    pausedRemaining,
+    timeZone,
+    label,
+    color,
+    expiry,
+    expiryMessage,
+    notify,
+    pinned,
+    mode,
+    stopwatch,
+    repeat,
+    units,
+    format,
+    hideLeadingZeros,
+    style,
+    calendar,
+    fields
+  };
+}
+
+/**
+ * Reads either the `key: value` block form or the legacy positional form
+ * (target, label, colour, expiry on lines 1–4) into a single field map.
+ */
+function parseBlockFields(source: string): CountdownBlockFields {
+  const lines = source
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const fields: CountdownBlockFields = new Map();
+  if (!lines.length) {
+    return fields;
+  }
+
+  if (!BLOCK_FIELD_PATTERN.test(lines[0])) {
+    return parseLegacyBlockFields(lines);
+  }
+
+  lines.forEach((line) => {
+    const match = line.match(BLOCK_FIELD_PATTERN);
+    if (!match) {
+      return;
+    }
+    const key = match[1].toLowerCase();
+    if (!fields.has(key)) {
+      fields.set(key, parseFieldValue(match[2]));
+    }
+  });
+
+  return fields;
+}
+
+function parseLegacyBlockFields(lines: string[]): CountdownBlockFields {
+  const fields: CountdownBlockFields = new Map();
+  fields.set("target", lines[0]);
+  if (lines[1]) {
+    fields.set("label", lines[1]);
+  }
+  if (lines[2]) {
+    fields.set("color", lines[2]);
+  }
+
+  const { expiry, expiryMessage } = parseExpiryLine(lines[3]);
+  if (expiry !== DEFAULT_EXPIRY_MODE) {
+    fields.set("end", expiry);
+  }
+  if (expiryMessage) {
+    fields.set("message", expiryMessage);
+  }
+  return fields;
+}
+
+function parseFieldValue(raw: string) {
+  const value = raw.trim();
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return String(JSON.parse(value));
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+function formatFieldValue(value: string) {
+  const needsQuotes = value !== value.trim() || /^["']/.test(value);
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+/** Returns the fields of a block that `parseCountdownSource` does not interpret. */
+function getUnknownBlockFields(fields: CountdownBlockFields): CountdownBlockFields {
+  const unknown: CountdownBlockFields = new Map();
+  fields.forEach((value, key) => {
+    if (!KNOWN_BLOCK_KEYS.includes(key)) {
+      unknown.set(key, value);
+    }
+  });
+  return unknown;
+}
+
+function serializeCountdownLines(
+  data: {
+    target: string;
+    label: string;
+    color: string;
+    expiry?: CountdownExpiryMode;
+    expiryMessage?: string;
+    mode?: CountdownMode;
+    stopwatch?: StopwatchState;
+    repeat?: RecurrenceRule | null;
+    timeZone?: string | null;
+    start?: string | null;
+    pausedRemaining?: number | null;
+    pinned?: boolean;
+  },
+  extraFields: CountdownBlockFields = new Map()
+) {
+  const fields: CountdownBlockFields = new Map();
+  const mode = data.mode ?? DEFAULT_MODE;
+  if (mode !== DEFAULT_MODE) {
+    fields.set("mode", mode);
+  }
+  // A stopwatch ignores its target but keeps it, so switching back to a countdown restores it.
+  fields.set("target", data.target);
+  if (data.timeZone) {
+    fields.set("tz", data.timeZone);
+  }
+  if (mode === "countdown" && data.start) {
+    fields.set("start", data.start);
+  }
+  if (mode === "countdown" && typeof data.pausedRemaining === "number") {
+    fields.set("paused", String(Math.round(data.pausedRemaining / 1000)));
+  }
+  if (mode === "countdown" && data.repeat) {
+    fields.set("repeat", formatRecurrenceRule(data.repeat));
+  }
+  fields.set("label", data.label);
+  fields.set("color", data.color);
+  if (mode === "countdown" && data.pinned) {
+    fields.set("pinned", "true");
+  }
+
+  if (mode === "stopwatch") {
+    const stopwatch = data.stopwatch ?? { elapsedMs: 0, startedAt: null };
+    fields.set("elapsed", String(Math.round(stopwatch.elapsedMs / 1000)));
+    if (stopwatch.startedAt) {
+      fields.set("started", stopwatch.startedAt.toISOString());
+    }
+  }
+
+  const expiry = data.expiry ?? DEFAULT_EXPIRY_MODE;
+  if (mode === "countdown" && expiry !== DEFAULT_EXPIRY_MODE) {
+    fields.set("end", expiry);
+  }
+  if (mode === "countdown" && expiry === "message" && data.expiryMessage) {
+    fields.set("message", data.expiryMessage);
+  }
+
+  extraFields.forEach((value, key) => {
+    if (!fields.has(key) && !KNOWN_BLOCK_KEYS.includes(key)) {
+      fields.set(key, value);
+    }
+  });
+
+  const lines = ["```countdown"];
+  fields.forEach((value, key) => lines.push(`${key}: ${formatFieldValue(value)}`));
+  lines.push("```");
+  return lines;
+}
+
+const INLINE_COUNTDOWN_PATTERN = /^countdown:\s*(.+)$/i;
+const INLINE_COUNTDOWN_SOURCE_PATTERN = /`(countdown:[^`\n]+)`/gi;
+
+/**
+ * Parses the text of an inline `` `countdown: …` `` span: an absolute target, then an
+ * optional label and colour separated by semicolons (pipes would split table cells).
+ */
+function parseInlineCountdown(text: string): InlineCountdownSpec | null {
+  const match = text.trim().match(INLINE_COUNTDOWN_PATTERN);
+  return match ? parseCountdownSpec(match[1]) : null;
+}
+
+/** Parses `target; label; #color`, the shared form of inline countdowns and timeline milestones. */
+function parseCountdownSpec(text: string): InlineCountdownSpec | null {
+  const [targetPart, ...rest] = text.split(";").map((part) => part.trim());
+  const target = parseTargetDate(normalisePropertyDate(targetPart));
+  if (!target) {
+    return null;
+  }
+
+  let label: string | null = null;
+  let color: string | null = null;
+  rest.forEach((part) => {
+    const asColor = isColorSyntax(part) ? normaliseColor(part) : null;
+    if (asColor && !color) {
+      color = asColor;
+    } else if (part && !label) {
+      label = part;
+    }
+  });
+  return { target, label, color };
+}
+
+const TASK_LINE_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+\[(.)\]\s+(.*)$/;
+const TASK_DUE_PATTERNS = [/📅\s*(\d{4}-\d{2}-\d{2})/u, /\[due::\s*([^\]]+?)\s*\]/i];
+/** Tasks-plugin signifiers and inline fields, stripped when the task text becomes a label. */
+const TASK_METADATA_PATTERNS = [
+  /[📅⏳🛫➕✅❌]\uFE0F?\s*\d{4}-\d{2}-\d{2}/gu,
+  /🔁\uFE0F?[^📅⏳🛫➕✅❌⏫🔼🔽🔺⏬]*/gu,
+  /[⏫🔼🔽🔺⏬]\uFE0F?/gu,
+  /\[[\w-]+::[^\]]*\]/g
+];
+
+/** Statuses other than these (e.g. `/` for in progress) still count as open. */
+const TASK_DONE_STATUSES = ["x", "X", "-"];
+
+const TIMELINE_MILESTONE_PATTERN = /^(\s*[-*+]\s+)(.*)$/;
+const TIMELINE_LAYOUTS: TimelineLayout[] = ["horizontal", "vertical"];
+
+/**
+ * A timeline body holds `- target; label; #color` milestone lines plus optional
+ * `key: value` settings (currently only `layout`). Blank lines are ignored.
+ */
+function parseTimelineSource(source: string) {
+  let layout: TimelineLayout = "horizontal";
+  const milestones: TimelineMilestone[] = [];
+  let invalidLine: string | null = null;
+
+  source.split("\n").forEach((raw, line) => {
+    const text = raw.trim();
+    if (!text || invalidLine !== null) {
+      return;
+    }
+
+    const milestoneMatch = raw.match(TIMELINE_MILESTONE_PATTERN);
+    const spec = milestoneMatch ? parseCountdownSpec(milestoneMatch[2]) : null;
+    if (spec) {
+      milestones.push({ ...spec, line });
+      return;
+    }
+
+    const field = text.match(BLOCK_FIELD_PATTERN);
+    const value = field?.[2].trim().toLowerCase();
+    if (field?.[1].toLowerCase() === "layout" && TIMELINE_LAYOUTS.some((option) => option === value)) {
+      layout = value as TimelineLayout;
+      return;
+    }
+    invalidLine = text;
+  });
+
+  return { layout, milestones, invalidLine };
+}
+
+function parseTaskDueDate(line: string): TaskDueDate | null {
+  const match = line.match(TASK_LINE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, status, body] = match;
+  const raw = TASK_DUE_PATTERNS.map((pattern) => body.match(pattern)?.[1]).find(Boolean);
+  const due = parseTargetDate(normalisePropertyDate(raw ?? null));
+  if (!due) {
+    return null;
+  }
+
+  const text = TASK_METADATA_PATTERNS.reduce((result, pattern) => result.replace(pattern, " "), body)
+    .replace(/\s+/g, " ")
+    .trim();
+  return { due, text, done: TASK_DONE_STATUSES.includes(status) };
+}
+
+function formatInlineCountdown(spec: InlineCountdownSpec) {
+  return `countdown: ${formatCountdownSpec(spec)}`;
+}
+
+function formatCountdownSpec(spec: InlineCountdownSpec) {
+  const parts = [toDateTimeLocalInput(spec.target).replace("T", " ")];
+  if (spec.label) {
+    parts.push(spec.label.replace(/[;`]/g, ""));
+  }
+  if (spec.color) {
+    // Theme colours are written as variables so they read back as colours, not labels.
+    parts.push(getCssColor(spec.color));
+  }
+  return parts.join("; ");
+}
+
+const OWN_PROPERTY_PATTERN = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+const LINKED_PROPERTY_PATTERN = /^\[\[([^\]|#]+)(?:\|[^\]]*)?\]\]#(.+)$/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseTargetReference(input: string | undefined): TargetReference | null {
+  const value = input?.trim() ?? "";
+  const own = value.match(OWN_PROPERTY_PATTERN);
+  if (own) {
+    return { link: null, property: own[1] };
+  }
+  const linked = value.match(LINKED_PROPERTY_PATTERN);
+  if (linked) {
+    return { link: linked[1].trim(), property: linked[2].trim() };
+  }
+  return null;
+}
+
+const TEMPLATE_TARGET_PATTERN = /^[+-]\s*((?:\d+\s*[wdhm]\s*)*)(?:@\s*(\d{1,2}):(\d{2}))?$/i;
+const TEMPLATE_FIELD_PATTERN = /^(\s*(?:target|start)\s*:\s*)(.*?)\s*$/i;
+
+/** Reads `+14d@18:00`, `+2w`, `+1d6h`, `-1d@09:00` or `+@17:00` (the base day at 17:00). */
+function parseTemplateTarget(input: string | undefined): TemplateTarget | null {
+  const value = input?.trim() ?? "";
+  const match = value.match(TEMPLATE_TARGET_PATTERN);
+  if (!match || (!match[1].trim() && match[2] === undefined)) {
+    return null;
+  }
+
+  const sign = value.startsWith("-") ? -1 : 1;
+  const template: TemplateTarget = { days: 0, ms: 0, time: null };
+  for (const [, amount, unit] of match[1].matchAll(/(\d+)\s*([wdhm])/gi)) {
+    const count = Number(amount) * sign;
+    const key = unit.toLowerCase();
+    if (key === "w" || key === "d") {
+      template.days += key === "w" ? count * 7 : count;
+    } else {
+      template.ms += count * (key === "h" ? 3600 : 60) * 1000;
+    }
+  }
+  if (match[2] !== undefined) {
+    const hours = Number(match[2]);
+    const minutes = Number(match[3]);
+    if (hours > 23 || minutes > 59) {
+      return null;
+    }
+    template.time = [hours, minutes];
+  }
+  return template;
+}
+
+/**
+ * Applies a placeholder to its base. Days move along the calendar, so `+1d@09:00`
+ * stays at 09:00 across daylight-saving changes; the time of day is read in the
+ * block's `tz` when it has one.
+ */
+function resolveTemplateTarget(template: TemplateTarget, base: Date, timeZone: string | null): Date {
+  const date = new Date(base.getTime());
+  date.setDate(date.getDate() + template.days);
+  date.setTime(date.getTime() + template.ms);
+  if (!template.time) {
+    return date;
+  }
+  const day = toDateTimeLocalInput(date, timeZone).slice(0, 10);
+  const [hours, minutes] = template.time;
+  return parseTargetInput(`${day}T${pad(hours)}:${pad(minutes)}`, base, timeZone)?.date ?? date;
+}
+
+/** Rewrites `target:` and `start:` placeholders in the note's countdown blocks as absolute timestamps. */
+function pinTemplatePlaceholders(content: string, base: Date) {
+  const lines = content.split("\n");
+  let fence: string | null = null;
+  let blockStart = 0;
+  lines.forEach((line, index) => {
+    if (fence === null) {
+      const open = line.match(COUNTDOWN_FENCE_PATTERN);
+      if (open) {
+        fence = open[1];
+        blockStart = index;
+      }
+      return;
+    }
+    if (!line.trim().startsWith(fence)) {
+      return;
+    }
+
+    fence = null;
+    const body = lines.slice(blockStart + 1, index);
+    const timeZone = normaliseTimeZone(parseBlockFields(body.join("\n")).get("tz"));
+    body.forEach((bodyLine, offset) => {
+      const match = bodyLine.match(TEMPLATE_FIELD_PATTERN);
+      const template = match ? parseTemplateTarget(match[2]) : null;
+      if (match && template) {
+        lines[blockStart + 1 + offset] = match[1] + resolveTemplateTarget(template, base, timeZone).toISOString();
+      }
+    });
+  });
+  return lines.join("\n");
+}
+
+function formatTargetReference(reference: TargetReference) {
+  return reference.link ? `[[${reference.link}]]#${reference.property}` : `{{${reference.property}}}`;
+}
+
+/** Date-only properties (`due: 2026-12-31`) mean local midnight, not the UTC midnight `Date.parse` would pick. */
+function normalisePropertyDate(value: string | null): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return DATE_ONLY_PATTERN.test(trimmed) ? `${trimmed}T00:00` : trimmed;
+}
+
+/**
+ * The optional fourth line of a legacy block holds the expiry behaviour:
+ * `freeze`, `elapsed` or `message: <text>`. Anything unrecognised falls back to freezing.
+ */
+function parseExpiryLine(line: string | undefined): { expiry: CountdownExpiryMode; expiryMessage: string } {
+  if (!line) {
+    return { expiry: DEFAULT_EXPIRY_MODE, expiryMessage: "" };
+  }
+
+  const messageMatch = line.match(/^message\s*:\s*(.*)$/i);
+  if (messageMatch) {
+    return { expiry: "message", expiryMessage: messageMatch[1].trim() };
+  }
+
+  return { expiry: normaliseExpiryMode(line) ?? DEFAULT_EXPIRY_MODE, expiryMessage: "" };
+}
+
+/** Stopwatch blocks keep `elapsed` (whole seconds banked) and, while running, `started` (ISO). */
+function parseStopwatchState(fields: CountdownBlockFields): StopwatchState {
+  const elapsedSeconds = Number(fields.get("elapsed") ?? 0);
+  return {
+    elapsedMs: Number.isFinite(elapsedSeconds) && elapsedSeconds > 0 ? elapsedSeconds * 1000 : 0,
+    startedAt: parseTargetDate(fields.get("started"))
+  };
+}
+
+function normaliseMode(input: string | undefined): CountdownMode | null {
+  const value = input?.trim().toLowerCase();
+  return COUNTDOWN_MODES.find((mode) => mode === value) ?? null;
+}
+
+function normaliseExpiryMode(input: string | undefined): CountdownExpiryMode | null {
+  const value = input?.trim().toLowerCase();
+  return EXPIRY_MODES.find((mode) => mode === value) ?? null;
+}
+
+function parseBooleanField(input: string | undefined): boolean | null {
+  const value = input?.trim().toLowerCase();
+  if (!value) {
+    return null;
+  }
+  if (["true", "yes", "on", "1"].includes(value)) {
+    return true;
+  }
+  if (["false", "no", "off", "0"].includes(value)) {
+    return false;
+  }
+  return null;
+}
+
+/**
+ * Parses a `repeat:` value: `daily`, `weekdays`, `weekly [mon,wed,...]`,
+ * `monthly [N|last]`, or a five-field cron expression (optionally prefixed by `cron`).
+ */
+function parseRecurrenceRule(input: string | undefined): RecurrenceRule | null {
+  const value = input?.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!value) {
+    return null;
+  }
+
+  if (value === "daily" || value === "every day") {
+    return { kind: "daily" };
+  }
+
+  if (value === "weekdays") {
+    return { kind: "weekly", weekdays: [1, 2, 3, 4, 5] };
+  }
+
+  const weekly = value.match(/^weekly(?: on)?(?: (.+))?$/);
+  if (weekly) {
+    if (!weekly[1]) {
+      return { kind: "weekly", weekdays: [] };
+    }
+    const weekdays = weekly[1].split(/[\s,]+/).filter(Boolean).map((name) => WEEKDAY_NAMES.indexOf(name.slice(0, 3)));
+    if (weekdays.some((day) => day < 0)) {
+      return null;
+    }
+    return { kind: "weekly", weekdays: Array.from(new Set(weekdays)).sort((a, b) => a - b) };
+  }
+
+  const monthly = value.match(/^monthly(?: on)?(?: (\d{1,2}|last))?$/);
+  if (monthly) {
+    if (!monthly[1]) {
+      return { kind: "monthly", day: null };
+    }
+    if (monthly[1] === "last") {
+      return { kind: "monthly", day: "last" };
+    }
+    const day = Number(monthly[1]);
+    return day >= 1 && day <= 31 ? { kind: "monthly", day } : null;
+  }
+
+  const expression = value.replace(/^cron /, "");
+  const schedule = parseCronExpression(expression);
+  return schedule ? { kind: "cron", expression, schedule } : null;
+}
+
+function formatRecurrenceRule(rule: RecurrenceRule) {
+  switch (rule.kind) {
+    case "daily":
+      return "daily";
+    case "weekly":
+      return rule.weekdays.length ? `weekly ${rule.weekdays.map((day) => WEEKDAY_NAMES[day]).join(",")}` : "weekly";
+    case "monthly":
+      return rule.day === null ? "monthly" : `monthly ${rule.day}`;
+    case "cron":
+      return `cron ${rule.expression}`;
+  }
+}
+
+function parseCronExpression(expression: string): CronSchedule | null {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    return null;
+  }
+
+  const minutes = parseCronField(parts[0], 0, 59);
+  const hours = parseCronField(parts[1], 0, 23);
+  const days = parseCronField(parts[2], 1, 31);
+  const months = parseCronField(parts[3], 1, 12, MONTH_NAMES, 1);
+  const weekdays = parseCronField(parts[4], 0, 7, WEEKDAY_NAMES, 0);
+  if (!minutes || !hours || !days || !months || !weekdays) {
+    return null;
+  }
+
+  return {
+    minutes: minutes.values,
+    hours: hours.values,
+    days: days.values,
+    months: months.values,
+    // Cron allows 7 for Sunday as well as 0.
+    weekdays: Array.from(new Set(weekdays.values.map((day) => day % 7))).sort((a, b) => a - b),
+    daysRestricted: days.restricted,
+    weekdaysRestricted: weekdays.restricted
+  };
+}
+
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset = 0
+): { values: number[]; restricted: boolean } | null {
+  const toNumber = (token: string) => {
+    const named = names.indexOf(token.slice(0, 3));
+    return named >= 0 ? named + nameOffset : /^\d+$/.test(token) ? Number(token) : NaN;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|[a-z0-9]+(?:-[a-z0-9]+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      return null;
+    }
+
+    const step = match[2] ? Number(match[2]) : 1;
+    let start = min;
+    let end = max;
+    if (match[1] !== "*") {
+      const [from, to] = match[1].split("-");
+      start = toNumber(from);
+      end = to === undefined ? (match[2] ? max : start) : toNumber(to);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end || step < 1) {
+      return null;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values: Array.from(values).sort((a, b) => a - b), restricted: field !== "*" };
+}
+
+function matchesRecurrenceDay(rule: RecurrenceRule, day: Date, anchor: Date) {
+  switch (rule.kind) {
+    case "daily":
+      return true;
+    case "weekly":
+      return (rule.weekdays.length ? rule.weekdays : [anchor.getDay()]).includes(day.getDay());
+    case "monthly": {
+      const lastDay = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+      const wanted = rule.day === "last" ? lastDay : Math.min(rule.day ?? anchor.getDate(), lastDay);
+      return day.getDate() === wanted;
+    }
+    case "cron": {
+      const { schedule } = rule;
+      if (!schedule.months.includes(day.getMonth() + 1)) {
+        return false;
+      }
+      const dayMatches = schedule.days.includes(day.getDate());
+      const weekdayMatches = schedule.weekdays.includes(day.getDay());
+      // Standard cron: when both fields are restricted, either one matching is enough.
+      if (schedule.daysRestricted && schedule.weekdaysRestricted) {
+        return dayMatches || weekdayMatches;
+      }
+      return dayMatches && weekdayMatches;
+    }
+  }
+}
+
+/** Times of day (hours, minutes, seconds) at which a rule fires, in ascending order. */
+function getRecurrenceTimes(rule: RecurrenceRule, anchor: Date): Array<[number, number, number]> {
+  if (rule.kind !== "cron") {
+    return [[anchor.getHours(), anchor.getMinutes(), anchor.getSeconds()]];
+  }
+  const times: Array<[number, number, number]> = [];
+  rule.schedule.hours.forEach((hour) => rule.schedule.minutes.forEach((minute) => times.push([hour, minute, 0])));
+  return times;
+}
+
+/**
+ * First occurrence strictly after `after` and not before the anchor (the block's target).
+ * With a zone, days and times of day are those of that zone rather than the device's.
+ */
+function nextOccurrence(rule: RecurrenceRule, anchor: Date, after: number, timeZone: string | null = null): Date | null {
+  if (timeZone) {
+    const wallAfter = toZonedWallClock(new Date(after), timeZone).getTime();
+    const wall = nextOccurrence(rule, toZonedWallClock(anchor, timeZone), wallAfter);
+    return wall && fromZonedWallClock(wall, timeZone);
+  }
+
+  const start = new Date(Math.max(anchor.getTime(), after));
+  const times = getRecurrenceTimes(rule, anchor);
+
+  for (let offset = 0; offset <= MAX_RECURRENCE_SCAN_DAYS; offset++) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+    if (!matchesRecurrenceDay(rule, day, anchor)) {
+      continue;
+    }
+    for (const [hours, minutes, seconds] of times) {
+      const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes, seconds);
+      if (candidate.getTime() > after && candidate.getTime() >= anchor.getTime()) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+/** Latest occurrence at or before `before`, or null if the series had not started yet. */
+function previousOccurrence(
+  rule: RecurrenceRule,
+  anchor: Date,
+  before: number,
+  timeZone: string | null = null
+): Date | null {
+  if (timeZone) {
+    const wallBefore = toZonedWallClock(new Date(before), timeZone).getTime();
+    const wall = previousOccurrence(rule, toZonedWallClock(anchor, timeZone), wallBefore);
+    return wall && fromZonedWallClock(wall, timeZone);
+  }
+  if (before < anchor.getTime()) {
+    return null;
+  }
+
+  const start = new Date(before);
+  const anchorDay = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+  const times = getRecurrenceTimes(rule, anchor).reverse();
+
+  for (let offset = 0; offset <= MAX_RECURRENCE_SCAN_DAYS; offset++) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() - offset);
+    if (day < anchorDay) {
+      return null;
+    }
+    if (!matchesRecurrenceDay(rule, day, anchor)) {
+      continue;
+    }
+    for (const [hours, minutes, seconds] of times) {
+      const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes, seconds);
+      if (candidate.getTime() <= before && candidate.getTime() >= anchor.getTime()) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+/** Parses `units: days, hours, minutes` into canonical (largest-first) order; aliases like `d` or `hrs` are accepted. */
+function parseUnitList(input: string | undefined): CountdownUnitKey[] | null {
+  if (!input?.trim()) {
+    return null;
+  }
+
+  const aliases: Record<string, CountdownUnitKey> = {
+    y: "years", yr: "years", year: "years",
+    mo: "months", month: "months",
+    w: "weeks", wk: "weeks", week: "weeks",
+    d: "days", day: "days",
+    h: "hours", hr: "hours", hrs: "hours", hour: "hours",
+    m: "minutes", min: "minutes", mins: "minutes", minute: "minutes",
+    s: "seconds", sec: "seconds", secs: "seconds", second: "seconds"
+  };
+  const requested = input
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((token) => (UNIT_KEYS as string[]).includes(token) ? (token as CountdownUnitKey) : aliases[token]);
+  if (requested.some((unit) => !unit)) {
+    return null;
+  }
+  return UNIT_KEYS.filter((unit) => requested.includes(unit));
+}
+
+function normaliseDisplayFormat(input: string | undefined): CountdownDisplayFormat | null {
+  const value = input?.trim().toLowerCase();
+  return DISPLAY_FORMATS.find((format) => format === value) ?? null;
+}
+
+function normaliseProgressStyle(input: string | undefined): ProgressStyle | null {
+  const value = input?.trim().toLowerCase();
+  return PROGRESS_STYLES.find((style) => style === value) ?? null;
+}
+
+function normaliseBlockStyle(input: string | undefined): CountdownBlockStyle | null {
+  const value = input?.trim().toLowerCase();
+  return BLOCK_STYLES.find((style) => style === value) ?? null;
+}
+
+function normaliseCalendar(input: string | undefined): CountdownCalendar | null {
+  const value = input?.trim().toLowerCase();
+  return COUNTDOWN_CALENDARS.find((calendar) => calendar === value) ?? null;
+}
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTIONAL_COLOR_PATTERN = /^(?:rgba?|hsla?)\([\w\s.,%/+-]+\)$/i;
+const CSS_VARIABLE_PATTERN = /^var\(\s*(--[\w-]+)\s*\)$/i;
+
+/**
+ * Canonical form of a colour value: hex is expanded to upper-case `#RRGGBB` or `#RRGGBBAA`,
+ * `rgb()`/`hsl()` are lower-cased, and theme colours become their name (`var(--color-red)` → `red`).
+ * Other CSS variables are kept as `var(--name)`.
+ */
+function normaliseColor(input: string | undefined): string | null {
+  const value = input?.trim();
+  if (!value) {
+    return null;
+  }
+
+  const hex = value.match(HEX_COLOR_PATTERN);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].replace(/./g, (digit) => digit + digit) : hex[1];
+    return `#${digits.toUpperCase()}`;
+  }
+
+  const lower = value.toLowerCase().replace(/\s+/g, " ");
+  if (THEME_COLOR_NAMES.includes(lower)) {
+    return lower;
+  }
+
+  // Custom property names are case-sensitive, so variables are matched on the original text.
+  const variable = value.match(CSS_VARIABLE_PATTERN);
+  if (variable) {
+    const themeName = variable[1].replace(/^--color-/, "");
+    return THEME_COLOR_NAMES.includes(themeName) ? themeName : `var(${variable[1]})`;
+  }
+
+  // The pattern only checks the shape; the browser decides whether the arguments make sense.
+  if (FUNCTIONAL_COLOR_PATTERN.test(lower) && (typeof CSS === "undefined" || CSS.supports("color", lower))) {
+    return lower;
+  }
+  return null;
+}
+
+/** The CSS value for a normalised colour. */
+function getCssColor(color: string) {
+  return THEME_COLOR_NAMES.includes(color) ? `var(--color-${color})` : color;
+}
+
+/** Colour pickers only take opaque `#RRGGBB`; other colours leave the picker as it was. */
+function toColorPickerValue(color: string) {
+  return /^#[0-9A-F]{6}$/.test(color) ? color.toLowerCase() : null;
+}
+
+/** Whether a `;`-separated part of an inline spec is meant as a colour rather than a label. */
+function isColorSyntax(part: string) {
+  return part.startsWith("#") || /^(?:rgba?|hsla?|var)\(/i.test(part);
+}
+
+function colorsEqual(a: string, b: string) {
+  return normaliseColor(a) === normaliseColor(b);
+}
+
+function parseTargetDate(input: string | undefined): Date | null {
+  if (!input) {
+    return null;
+  }
+
+  const normalized = input.trim().replace(/\s+/, "T");
+  const timestamp = Date.parse(normalized);
+  if (Number.isNaN(timestamp)) {
+    return null;
+  }
+
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Resolves a target typed by a person: anything `parseTargetDate` understands, or a
+ * natural-language expression relative to `now` (flagged so callers can pin it).
+ */
+function parseTargetInput(
+  input: string | undefined,
+  now = new Date(),
+  timeZone: string | null = null
+): { date: Date; relative: boolean } | null {
+  if (!input) {
+    return null;
+  }
+
+  // With a zone, parse against that zone's wall clock and convert the result back,
+  // unless the text already carries an explicit offset.
+  const hasOffset = HAS_UTC_OFFSET_PATTERN.test(input.trim());
+  const fromWall = (date: Date) => (timeZone && !hasOffset ? fromZonedWallClock(date, timeZone) : date);
+
+  // Date-only targets mean midnight, in the block's zone when it has one.
+  const literal = normalisePropertyDate(input);
+  const absolute = parseTargetDate(literal);
+  if (absolute) {
+    const wall = timeZone && !hasOffset ? parseWallClockMs(literal) : null;
+    return { date: wall !== null && timeZone ? fromZonedWallClockMs(wall, timeZone) : fromWall(absolute), relative: false };
+  }
+  const natural = parseNaturalDate(input, timeZone ? toZonedWallClock(now, timeZone) : now);
+  return natural ? { date: fromWall(natural), relative: true } : null;
+}
+
+const HAS_UTC_OFFSET_PATTERN = /(?:z|[+-]\d{2}:?\d{2})$/i;
+
+type TimeOfDay = [number, number, number];
+
+const DEFAULT_DAY_TIME: TimeOfDay = [9, 0, 0];
+const END_OF_DAY_TIME: TimeOfDay = [23, 59, 59];
+
+const EN_DURATION_UNITS: Record<string, DurationUnit> = {
+  s: "second", sec: "second", secs: "second", second: "second", seconds: "second",
+  m: "minute", min: "minute", mins: "minute", minute: "minute", minutes: "minute",
+  h: "hour", hr: "hour", hrs: "hour", hour: "hour", hours: "hour",
+  d: "day", day: "day", days: "day",
+  w: "week", wk: "week", wks: "week", week: "week", weeks: "week",
+  mo: "month", month: "month", months: "month",
+  y: "year", yr: "year", yrs: "year", year: "year", years: "year"
+};
+
+const ZH_DURATION_UNITS: Record<string, DurationUnit> = {
+  秒: "second", 秒钟: "second",
+  分: "minute", 分钟: "minute",
+  小时: "hour", 钟头: "hour",
+  天: "day", 日: "day",
+  周: "week", 星期: "week", 礼拜: "week",
+  月: "month",
+  年: "year"
+};
+
+type DurationUnit = "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+/** Traditional characters that appear in date expressions, mapped to the simplified forms the patterns use. */
+const TRADITIONAL_DATE_CHARS: Record<string, string> = {
+  後: "后",
+  週: "周",
+  個: "个",
+  鐘: "钟",
+  頭: "头",
+  點: "点",
+  時: "时",
+  禮: "礼",
+  兩: "两",
+  這: "这"
+};
+
+/**
+ * Parses English and Chinese expressions such as "in 3h 20m", "2 weeks",
+ * "next Friday 17:00", "tomorrow noon", "end of month", "下周五 17:00" or "3天后".
+ * Traditional Chinese ("下週五", "3天後") is accepted too.
+ */
+function parseNaturalDate(input: string, now: Date): Date | null {
+  const text = input
+    .trim()
+    .toLowerCase()
+    .replace(/：/g, ":")
+    .replace(/\s+/g, " ")
+    .replace(/[後週個鐘頭點時禮兩這]/g, (char) => TRADITIONAL_DATE_CHARS[char]);
+  if (!text) {
+    return null;
+  }
+  return parseRelativeDuration(text, now) ?? parseDayAndTime(text, now);
+}
+
+function parseRelativeDuration(text: string, now: Date): Date | null {
+  const en = text.match(/^(?:in )?((?:(?:\d+(?:\.\d+)?|an?) ?[a-z]+ ?)+?)(?: from now| later)?$/);
+  if (en) {
+    const parts = Array.from(en[1].matchAll(/(\d+(?:\.\d+)?|an?) ?([a-z]+)/g));
+    const amounts = parts.map((part) => ({
+      value: part[1] === "a" || part[1] === "an" ? 1 : Number(part[1]),
+      unit: EN_DURATION_UNITS[part[2]]
+    }));
+    return amounts.every((amount) => amount.unit) ? addDurations(now, amounts) : null;
+  }
+
+  const zh = text.match(/^((?:[\d.一二两三四五六七八九十半]+ ?个? ?(?:秒钟|秒|分钟|分|小时|钟头|天|日|周|星期|礼拜|月|年) ?)+)(?:后|之后|以后)$/);
+  if (zh) {
+    const parts = Array.from(zh[1].matchAll(/([\d.一二两三四五六七八九十半]+) ?个? ?(秒钟|秒|分钟|分|小时|钟头|天|日|周|星期|礼拜|月|年)/g));
+    const amounts = parts.map((part) => ({ value: parseChineseNumber(part[1]), unit: ZH_DURATION_UNITS[part[2]] }));
+    return amounts.every((amount) => amount.value !== null) ? addDurations(now, amounts as { value: number; unit: DurationUnit }[]) : null;
+  }
+
+  return null;
+}
+
+function addDurations(start: Date, amounts: { value: number; unit: DurationUnit }[]) {
+  const date = new Date(start.getTime());
+  const msPerUnit: Partial<Record<DurationUnit, number>> = {
+    second: 1000,
+    minute: 60 * 1000,
+    hour: 60 * 60 * 1000
+  };
+
+  amounts.forEach(({ value, unit }) => {
+    if (unit === "month" || unit === "year") {
+      // Calendar units move the date, keeping the time of day; fractions round to whole months.
+      const months = Math.round(unit === "year" ? value * 12 : value);
+      date.setMonth(date.getMonth() + months);
+    } else if (unit === "day" || unit === "week") {
+      const days = unit === "week" ? value * 7 : value;
+      const whole = Math.trunc(days);
+      date.setDate(date.getDate() + whole);
+      date.setTime(date.getTime() + (days - whole) * 86400000);
+    } else {
+      date.setTime(date.getTime() + value * (msPerUnit[unit] ?? 0));
+    }
+  });
+  return date;
+}
+
+/** A day expression, optionally followed by a time of day; a bare time means its next occurrence. */
+function parseDayAndTime(text: string, now: Date): Date | null {
+  const day = matchDayExpression(text, now);
+  const rest = (day ? text.slice(day.length) : text).replace(/^(?: ?at | ?的| )/, "").trim();
+  // After a day, a bare hour is a time too: "tomorrow 9", "today at 17".
+  const timeText = day && /^\d{1,2}$/.test(rest) ? `${rest}:00` : rest;
+  const time = timeText ? parseTimeOfDay(timeText, day?.evening ?? false) : null;
+  if (rest && !time) {
+    return null;
+  }
+
+  if (!day) {
+    if (!time) {
+      return null;
+    }
+    const today = atTime(startOfDay(now), time);
+    return today.getTime() > now.getTime() ? today : atTime(addDays(startOfDay(now), 1), time);
+  }
+
+  const date = atTime(day.date, time ?? day.defaultTime);
+  if (day.nextWeekIfPast && date.getTime() <= now.getTime()) {
+    return atTime(addDays(day.date, 7), time ?? day.defaultTime);
+  }
+  return date;
+}
+
+/** `nextWeekIfPast`: a bare weekday ("monday", "周一") whose time today has gone means next week's. */
+type DayMatch = { date: Date; length: number; defaultTime: TimeOfDay; evening: boolean; nextWeekIfPast: boolean };
+
+function matchDayExpression(text: string, now: Date): DayMatch | null {
+  const today = startOfDay(now);
+  const match = (pattern: RegExp) => text.match(pattern);
+  const day = (date: Date, length: number, defaultTime = DEFAULT_DAY_TIME, evening = false): DayMatch => ({
+    date,
+    length,
+    defaultTime,
+    evening,
+    nextWeekIfPast: false
+  });
+
+  let m: RegExpMatchArray | null;
+  if ((m = match(/^(?:the )?day after tomorrow\b|^大后天|^后天/))) {
+    return day(addDays(today, m[0] === "大后天" ? 3 : 2), m[0].length);
+  }
+  if ((m = match(/^(?:tomorrow|tmrw?)\b|^明天|^明日/))) {
+    return day(addDays(today, 1), m[0].length);
+  }
+  if ((m = match(/^tonight\b|^今晚/))) {
+    return day(today, m[0].length, [20, 0, 0], true);
+  }
+  if ((m = match(/^today\b|^今天|^今日/))) {
+    return day(today, m[0].length);
+  }
+  if ((m = match(/^(?:eod\b|end of (?:the )?day\b)/))) {
+    return day(today, m[0].length, END_OF_DAY_TIME);
+  }
+  if ((m = match(/^(?:eow\b|end of (?:the )?week\b|(?:本|这)?周末)/))) {
+    // Weeks run Monday to Sunday.
+    return day(addDays(today, (7 - today.getDay()) % 7), m[0].length, END_OF_DAY_TIME);
+  }
+  if ((m = match(/^(?:eom\b|end of (?:the )?month\b|(?:本|这个?)?月底)/))) {
+    return day(new Date(today.getFullYear(), today.getMonth() + 1, 0), m[0].length, END_OF_DAY_TIME);
+  }
+  if ((m = match(/^(?:eoy\b|end of (?:the )?year\b|(?:今|本)?年底)/))) {
+    return day(new Date(today.getFullYear(), 11, 31), m[0].length, END_OF_DAY_TIME);
+  }
+
+  // Next week starts on Monday; next month on its first day.
+  if ((m = match(/^next week\b|^下个?(?:周|星期|礼拜)(?![一二三四五六日天1-7])/))) {
+    return day(addDays(resolveWeekday(today, 1, "this"), 7), m[0].length);
+  }
+  if ((m = match(/^next month\b|^下个?月/))) {
+    return day(new Date(today.getFullYear(), today.getMonth() + 1, 1), m[0].length);
+  }
+
+  m = match(/^(?:(next|this|coming) )?(sun|mon|tue(?:s)?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?)(?:day)?\b/);
+  if (m) {
+    const weekday = WEEKDAY_NAMES.indexOf(m[2].slice(0, 3));
+    const which = m[1] === "this" ? "this" : m[1] ? "upcoming" : "upcoming-or-today";
+    const date = resolveWeekday(today, weekday, which);
+    return { ...day(date, m[0].length), nextWeekIfPast: which === "upcoming-or-today" };
+  }
+
+  m = match(/^(下下|下|这|本)?个?(?:周|星期|礼拜)([一二三四五六日天1-7])/);
+  if (m) {
+    const weekday = "日天".includes(m[2]) ? 0 : (parseChineseNumber(m[2]) ?? 0) % 7;
+    const weeksAhead = m[1] === "下下" ? 2 : m[1] === "下" ? 1 : 0;
+    const date = m[1]
+      ? addDays(resolveWeekday(today, weekday, "this"), weeksAhead * 7)
+      : resolveWeekday(today, weekday, "upcoming-or-today");
+    return { ...day(date, m[0].length), nextWeekIfPast: !m[1] };
+  }
+
+  return null;
+}
+
+/**
+ * - `this`: that weekday in the current Monday-based week (may be in the past),
+ * - `upcoming`: the first such weekday after today,
+ * - `upcoming-or-today`: the same, but today counts.
+ */
+function resolveWeekday(today: Date, weekday: number, which: "this" | "upcoming" | "upcoming-or-today") {
+  if (which === "this") {
+    const mondayOffset = (today.getDay() + 6) % 7;
+    return addDays(today, ((weekday + 6) % 7) - mondayOffset);
+  }
+  const ahead = (weekday - today.getDay() + 7) % 7;
+  return addDays(today, ahead === 0 && which === "upcoming" ? 7 : ahead);
+}
+
+function parseTimeOfDay(text: string, evening: boolean): TimeOfDay | null {
+  const named: Record<string, TimeOfDay> = {
+    noon: [12, 0, 0],
+    midday: [12, 0, 0],
+    midnight: [23, 59, 59],
+    morning: [9, 0, 0],
+    afternoon: [15, 0, 0],
+    evening: [18, 0, 0],
+    中午: [12, 0, 0],
+    正午: [12, 0, 0],
+    午夜: [23, 59, 59],
+    早上: [9, 0, 0],
+    上午: [9, 0, 0],
+    下午: [15, 0, 0],
+    傍晚: [18, 0, 0],
+    晚上: [20, 0, 0]
+  };
+  if (named[text]) {
+    return named[text];
+  }
+
+  let m = text.match(/^(\d{1,2})(?::(\d{2}))? ?([ap])\.?m\.?$/);
+  if (m) {
+    const hours = (Number(m[1]) % 12) + (m[3] === "p" ? 12 : 0);
+    return validTime(hours, Number(m[2] ?? 0));
+  }
+
+  m = text.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (m) {
+    const hours = Number(m[1]);
+    return validTime(evening && hours < 12 ? hours + 12 : hours, Number(m[2]), Number(m[3] ?? 0));
+  }
+
+  m = text.match(/^(凌晨|早上|早晨|上午|中午|下午|傍晚|晚上)? ?([\d一二两三四五六七八九十]+) ?(?:点|时|:) ?(半|一刻|三刻|[\d一二三四五六七八九十]+)? ?分?$/);
+  if (m) {
+    const baseHours = parseChineseNumber(m[2]);
+    const minutes =
+      m[3] === "半" ? 30 : m[3] === "一刻" ? 15 : m[3] === "三刻" ? 45 : m[3] ? parseChineseNumber(m[3]) : 0;
+    if (baseHours === null || minutes === null) {
+      return null;
+    }
+    const afternoon = evening || ["下午", "傍晚", "晚上"].includes(m[1] ?? "") || (m[1] === "中午" && baseHours < 11);
+    return validTime(afternoon && baseHours < 12 ? baseHours + 12 : baseHours, minutes);
+  }
+
+  return null;
+}
+
+function validTime(hours: number, minutes: number, seconds = 0): TimeOfDay | null {
+  return hours <= 23 && minutes <= 59 && seconds <= 59 ? [hours, minutes, seconds] : null;
+}
+
+/** Parses Arabic digits or simple Chinese numerals up to 99 ("三", "十五", "二十三", "两", "半"). */
+function parseChineseNumber(input: string): number | null {
+  if (/^\d+(?:\.\d+)?$/.test(input)) {
+    return Number(input);
+  }
+  if (input === "半") {
+    return 0.5;
+  }
+
+  const digits: Record<string, number> = { 零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+  const tens = input.match(/^([二三四五六七八九])?十([一二三四五六七八九])?$/);
+  if (tens) {
+    return (tens[1] ? digits[tens[1]] : 1) * 10 + (tens[2] ? digits[tens[2]] : 0);
+  }
+  return input.length === 1 && input in digits ? digits[input] : null;
+}
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function atTime(date: Date, [hours, minutes, seconds]: TimeOfDay) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, seconds);
+}
+
+function toDateTimeLocalInput(date: Date, timeZone: string | null = null): string {
+  if (timeZone) {
+    date = toZonedWallClock(date, timeZone);
+  }
+  const year = date.getFullYear();
+  const month = pad(date.getMonth() + 1);
+  const day = pad(date.getDate());
+  const hours = pad(date.getHours());
+  const minutes = pad(date.getMinutes());
+  return `${year}-${month}-${day}T${hours}:${minutes}`;
+}
+
+function normaliseTimeZone(input: string | undefined): string | null {
+  const value = input?.trim();
+  if (!value) {
+    return null;
+  }
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: value }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+function getLocalTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function getSupportedTimeZones(): string[] {
+  const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supportedValuesOf ? supportedValuesOf("timeZone") : ["UTC"];
+}
+
+/**
+ * Returns a Date whose *local* fields show the wall-clock time in `timeZone`.
+ * Only meant for feeding local-time helpers; convert back with `fromZonedWallClock`.
+ */
+function toZonedWallClock(date: Date, timeZone: string) {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, date.getMilliseconds());
+}
+
+/** Reads the local fields of `wall` as a wall-clock time in `timeZone` and returns the real instant. */
+function fromZonedWallClock(wall: Date, timeZone: string) {
+  const asUtc = Date.UTC(
+    wall.getFullYear(),
+    wall.getMonth(),
+    wall.getDate(),
+    wall.getHours(),
+    wall.getMinutes(),
+    wall.getSeconds(),
+    wall.getMilliseconds()
+  );
+  return fromZonedWallClockMs(asUtc, timeZone);
+}
+
+/**
+ * The instant at which `timeZone` shows the wall-clock time `asUtc` encodes as if it were UTC.
+ * Like local dates, a time repeated when clocks go back means its first occurrence, and a
+ * time skipped when they go forward is moved forward by the size of the gap.
+ */
+function fromZonedWallClockMs(asUtc: number, timeZone: string) {
+  // A day either side brackets any DST change affecting this wall-clock time.
+  const before = getTimeZoneOffset(new Date(asUtc - UNIT_MS.days), timeZone);
+  const after = getTimeZoneOffset(new Date(asUtc + UNIT_MS.days), timeZone);
+  const valid = [before, after]
+    .map((offset) => asUtc - offset)
+    .filter((instant) => getTimeZoneOffset(new Date(instant), timeZone) === asUtc - instant);
+  return new Date(valid.length ? Math.min(...valid) : asUtc - before);
+}
+
+/**
+ * The wall-clock time of an ISO-style date without an offset, encoded as if it were UTC.
+ * Reading it straight from the text keeps the device's own DST gaps out of it.
+ */
+function parseWallClockMs(input: string | undefined): number | null {
+  if (!input) {
+    return null;
+  }
+  const timestamp = Date.parse(`${input.trim().replace(/\s+/, "T")}Z`);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+function getTimeZoneOffset(date: Date, timeZone: string) {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric"
+  });
+  const values: Record<string, number> = {};
+  formatter.formatToParts(date).forEach((part) => {
+    if (part.type !== "literal") {
+      values[part.type] = Number(part.value);
+    }
+  });
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour % 24,
+    minute: values.minute,
+    second: values.second
+  };
+}
+
+/** "Dec 31, 2026, 17:00 (Asia/Shanghai) · Dec 31, 2026, 02:00 (your time)"; one part when the zones agree. */
+function formatZonedTargets(target: Date, timeZone: string | null, locale: string, strings: Translations) {
+  const options: Intl.DateTimeFormatOptions = { dateStyle: "medium", timeStyle: "short" };
+  const local = `${target.toLocaleString(locale, options)} (${strings.timeZoneLocal})`;
+  if (!timeZone || timeZone === getLocalTimeZone()) {
+    return local;
+  }
+  const zoned = `${target.toLocaleString(locale, { ...options, timeZone })} (${timeZone})`;
+  return `${zoned} · ${local}`;
+}
+
+function createCountdownApi(plugin: CountdownTimerPlugin): CountdownApi {
+  const findEntry = (path: string, line: number) =>
+    plugin.index.getAll().find((entry) => entry.path === path && entry.lineStart <= line && line <= entry.lineEnd) ?? null;
+
+  const buildBlock = (options: CountdownCreateOptions) => {
+    const timeZone = options.timeZone ? normaliseTimeZone(options.timeZone) : null;
+    if (options.timeZone && !timeZone) {
+      throw new Error(`Unknown time zone: ${options.timeZone}`);
+    }
+    const target =
+      options.target instanceof Date ? options.target : parseTargetInput(options.target, new Date(), timeZone)?.date;
+    if (!target || Number.isNaN(target.getTime())) {
+      throw new Error(`Could not read the countdown target: ${String(options.target)}`);
+    }
+    const repeat = options.repeat ? parseRecurrenceRule(options.repeat) : null;
+    if (options.repeat && !repeat) {
+      throw new Error(`Could not read the repeat rule: ${options.repeat}`);
+    }
+    const color = options.color ? normaliseColor(options.color) : plugin.settings.defaultColor;
+    if (!color) {
+      throw new Error(`Unrecognised colour: ${options.color}`);
+    }
+    return serializeCountdownLines({
+      target: target.toISOString(),
+      label: options.label ?? plugin.getDefaultLabel(plugin.getStrings()),
+      color,
+      repeat,
+      timeZone,
+      start: options.start?.toISOString() ?? null
+    }).join("\n");
+  };
 
-    new Setting(containerEl)
-      .setName(strings.settingsDefaultDuration)
-      .setDesc(strings.targetHint)
-      .addText((text) => {
-        text.inputEl.type = "number";
-        text.inputEl.min = "1";
-        text.setValue(String(this.plugin.settings.defaultDurationMinutes));
-        text.onChange(async (value) => {
-          const parsed = Number(value);
-          if (!Number.isFinite(parsed) || parsed <= 0) {
-            return;
-          }
-          this.plugin.settings.defaultDurationMinutes = Math.floor(parsed);
-          await this.plugin.saveSettings();
-        });
+  return {
+    version: 1,
+    getCountdowns: () => {
+      const now = Date.now();
+      return sortByRemaining(plugin.index.getAll(), now).map((entry) => toCountdownInfo(entry, now));
+    },
+    getCountdown: (path, line) => {
+      const entry = findEntry(path, line);
+      return entry ? toCountdownInfo(entry, Date.now()) : null;
+    },
+    getRemaining: (path, line, now = Date.now()) => {
+      const entry = findEntry(path, line);
+      return entry ? getEntryTarget(entry, now).getTime() - now : null;
+    },
+    formatDuration: (ms, options: CountdownFormatOptions = {}) => {
+      const strings = plugin.getStrings();
+      const units = options.units?.length ? options.units : plugin.settings.defaultUnits;
+      const format = options.format ?? plugin.settings.defaultFormat;
+      const start = new Date();
+      const end = new Date(start.getTime() + Math.abs(ms));
+      if (format === "human") {
+        return formatHumanDuration(start, end, units, strings);
+      }
+      const values = breakdownDuration(start, end, units);
+      return format === "compact"
+        ? formatCompactDuration(values, units, strings)
+        : units.map((unit) => pad(values[unit])).join(":");
+    },
+    getStrings: () => plugin.getStrings(),
+    buildBlock,
+    insertCountdown: (editor, options, position = editor.getCursor()) => {
+      editor.replaceRange(`\n\n${buildBlock(options)}\n\n`, position);
+    },
+    addCountdown: async (path, options, line) => {
+      const block = buildBlock(options);
+      const { vault } = plugin.app;
+      const normalised = normalizePath(path);
+      const existing = vault.getAbstractFileByPath(normalised);
+      if (!(existing instanceof TFile)) {
+        await createFolderFor(vault, normalised);
+        return vault.create(normalised, `${block}\n`);
+      }
+      // The insertion as a text range, so an open note can take it through its editor.
+      const planEdit = (content: string) => {
+        const lines = content.split("\n");
+        if (line === undefined || line >= lines.length) {
+          return { from: content.replace(/\n*$/, "").length, to: content.length, text: `\n\n${block}\n` };
+        }
+        const from = lines.slice(0, Math.max(0, line)).reduce((offset, text) => offset + text.length + 1, 0);
+        return { from, to: from, text: `${block}\n\n` };
+      };
+      const editor = plugin.getOpenEditor(existing);
+      if (editor) {
+        const { from, to, text } = planEdit(editor.getValue());
+        editor.replaceRange(text, editor.offsetToPos(from), editor.offsetToPos(to));
+        return existing;
+      }
+      await vault.process(existing, (content) => {
+        const { from, to, text } = planEdit(content);
+        return content.slice(0, from) + text + content.slice(to);
       });
+      return existing;
+    }
+  };
+}
 
-    new Setting(containerEl)
-      .setName(strings.settingsDefaultColour)
-      .setDesc(strings.colorHint)
-      .addColorPicker((picker) => {
-        picker.setValue(this.plugin.settings.defaultColor);
-        picker.onChange(async (value) => {
-          const normalised = normaliseColor(value) ?? DEFAULT_SETTINGS.defaultColor;
-          this.plugin.settings.defaultColor = normalised;
-          await this.plugin.saveSettings();
-        });
-      });
+/** Creates the folders above `path` that do not exist yet, as `vault.create` will not. */
+async function createFolderFor(vault: Vault, path: string) {
+  const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+  if (parent && !vault.getAbstractFileByPath(parent)) {
+    await vault.createFolder(parent);
   }
 }
 
-function parseCountdownSource(source: string, fallbackLabel: string, fallbackColor: string) {
-  const lines = source
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
+function toCountdownInfo(entry: IndexedCountdown, now: number): CountdownInfo {
+  return {
+    id: entry.id,
+    path: entry.path,
+    lineStart: entry.lineStart,
+    lineEnd: entry.lineEnd,
+    target: getEntryTarget(entry, now),
+    label: entry.label,
+    color: entry.color,
+    repeat: entry.repeat ? formatRecurrenceRule(entry.repeat) : null,
+    notify: entry.notify,
+    pinned: entry.pinned
+  };
+}
 
-  if (!lines.length) {
-    return {
-      target: null,
-      label: fallbackLabel,
-      color: fallbackColor
-    };
+/** Upcoming countdowns first (soonest on top), then expired ones (most recent first). */
+function sortByRemaining(entries: IndexedCountdown[], now: number) {
+  const targetOf = (entry: IndexedCountdown) => getEntryTarget(entry, now).getTime();
+  const upcoming = entries.filter((entry) => targetOf(entry) > now);
+  const expired = entries.filter((entry) => targetOf(entry) <= now);
+  upcoming.sort((a, b) => targetOf(a) - targetOf(b));
+  expired.sort((a, b) => targetOf(b) - targetOf(a));
+  return [...upcoming, ...expired];
+}
+
+/** The target an indexed countdown is heading for at `now`, following its repeat rule. */
+function getEntryTarget(entry: IndexedCountdown, now: number) {
+  return entry.repeat ? nextOccurrence(entry.repeat, entry.target, now, entry.timeZone) ?? entry.target : entry.target;
+}
+
+/** Whether the countdown reaches its target (or any occurrence of it) within `(from, to]`. */
+function hasOccurrenceBetween(entry: IndexedCountdown, from: number, to: number) {
+  if (!entry.repeat) {
+    const target = entry.target.getTime();
+    return target > from && target <= to;
   }
+  const occurrence = nextOccurrence(entry.repeat, entry.target, from, entry.timeZone);
+  return occurrence !== null && occurrence.getTime() <= to;
+}
 
-  const target = parseTargetDate(lines[0]);
-  const label = (lines[1] || fallbackLabel).trim();
-  const color = normaliseColor(lines[2]) ?? fallbackColor;
+/** Parses a comma-separated list such as `1d, 2h30m, 15m` into minutes, largest first. */
+function parseLeadTimes(input: string): number[] | null {
+  const tokens = input
+    .split(",")
+    .map((token) => token.trim())
+    .filter((token) => token.length > 0);
 
-  return { target, label, color };
+  const minutes: number[] = [];
+  for (const token of tokens) {
+    if (!/^(\d+(?:\.\d+)?\s*[dhm]\s*)+$/i.test(token)) {
+      return null;
+    }
+
+    const parts = Array.from(token.matchAll(/(\d+(?:\.\d+)?)\s*([dhm])/gi));
+    const total = parts.reduce((sum, part) => {
+      const value = Number(part[1]);
+      const unit = part[2].toLowerCase();
+      return sum + (unit === "d" ? value * 1440 : unit === "h" ? value * 60 : value);
+    }, 0);
+    if (total > 0) {
+      minutes.push(Math.round(total));
+    }
+  }
+
+  return Array.from(new Set(minutes)).sort((a, b) => b - a);
 }
 
-function serializeCountdownLines(data: { target: string; label: string; color: string }) {
-  return ["```countdown", data.target, data.label, data.color, "```"];
+function formatLeadTimes(minutes: number[]) {
+  return minutes
+    .map((value) => {
+      const days = Math.floor(value / 1440);
+      const hours = Math.floor((value % 1440) / 60);
+      const mins = value % 60;
+      return [days ? `${days}d` : "", hours ? `${hours}h` : "", mins ? `${mins}m` : ""].join("");
+    })
+    .join(", ");
 }
 
-function normaliseColor(input: string | undefined): string | null {
-  if (!input) {
+/** Formats a duration as e.g. "1d 2h 15m", dropping zero parts and seconds. */
+function formatDurationShort(ms: number, strings: Translations) {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  const parts: string[] = [];
+  if (days) {
+    parts.push(`${days}${strings.shortDays}`);
+  }
+  if (hours) {
+    parts.push(`${hours}${strings.shortHours}`);
+  }
+  if (minutes || !parts.length) {
+    parts.push(`${minutes}${strings.shortMinutes}`);
+  }
+  return parts.join(" ");
+}
+
+/** Formats a remaining duration as "2d 03:04:05", omitting the day part when zero. */
+function formatRemaining(ms: number, strings: Translations) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+  return days ? `${days}${strings.shortDays} ${clock}` : clock;
+}
+
+/**
+ * Splits the span from `start` to `end` into the requested units. Years and months are
+ * counted on the calendar from `start`; the rest is divided out, largest unit first,
+ * and anything smaller than the smallest unit is dropped.
+ */
+function breakdownDuration(start: Date, end: Date, units: CountdownUnitKey[]): Record<CountdownUnitKey, number> {
+  const values: Record<CountdownUnitKey, number> = {
+    years: 0,
+    months: 0,
+    weeks: 0,
+    days: 0,
+    hours: 0,
+    minutes: 0,
+    seconds: 0
+  };
+
+  let cursor = new Date(start.getTime());
+  const addMonths = (date: Date, months: number) => {
+    const result = new Date(date.getTime());
+    const day = result.getDate();
+    result.setDate(1);
+    result.setMonth(result.getMonth() + months);
+    // Clamp to the end of shorter months (Jan 31 + 1 month = Feb 28/29).
+    result.setDate(Math.min(day, new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate()));
+    return result;
+  };
+
+  (["years", "months"] as const).forEach((unit) => {
+    if (!units.includes(unit)) {
+      return;
+    }
+    const step = unit === "years" ? 12 : 1;
+    while (addMonths(cursor, step * (values[unit] + 1)).getTime() <= end.getTime()) {
+      values[unit] += 1;
+    }
+    cursor = addMonths(cursor, step * values[unit]);
+  });
+
+  let remaining = Math.max(0, end.getTime() - cursor.getTime());
+  (["weeks", "days", "hours", "minutes", "seconds"] as const).forEach((unit) => {
+    if (!units.includes(unit)) {
+      return;
+    }
+    values[unit] = Math.floor(remaining / UNIT_MS[unit]);
+    remaining -= values[unit] * UNIT_MS[unit];
+  });
+
+  return values;
+}
+
+/** "3d 4h" — zero units are skipped, but the smallest unit stays when everything is zero. */
+function formatCompactDuration(values: Record<CountdownUnitKey, number>, units: CountdownUnitKey[], strings: Translations) {
+  const shortLabels: Record<CountdownUnitKey, string> = {
+    years: strings.shortYears,
+    months: strings.shortMonths,
+    weeks: strings.shortWeeks,
+    days: strings.shortDays,
+    hours: strings.shortHours,
+    minutes: strings.shortMinutes,
+    seconds: strings.shortSeconds
+  };
+  const parts = units.filter((unit) => values[unit] > 0).map((unit) => `${values[unit]}${shortLabels[unit]}`);
+  const smallest = units[units.length - 1];
+  return parts.length ? parts.join(" ") : `0${shortLabels[smallest]}`;
+}
+
+/** "3 weeks": the largest requested unit that is not zero, counted on its own. */
+function formatHumanDuration(start: Date, end: Date, units: CountdownUnitKey[], strings: Translations) {
+  const unit =
+    units.find((candidate) => breakdownDuration(start, end, [candidate])[candidate] > 0) ?? units[units.length - 1];
+  return formatHumanUnit(unit, breakdownDuration(start, end, [unit])[unit], strings);
+}
+
+/** `formatHumanDuration` for an amount of working time. */
+function formatHumanWorkingDuration(ms: number, units: CountdownUnitKey[], calendar: WorkingCalendar, strings: Translations) {
+  const unit =
+    units.find((candidate) => breakdownWorkingDuration(ms, [candidate], calendar)[candidate] > 0) ??
+    units[units.length - 1];
+  return formatHumanUnit(unit, breakdownWorkingDuration(ms, [unit], calendar)[unit], strings);
+}
+
+function formatHumanUnit(unit: CountdownUnitKey, count: number, strings: Translations) {
+  const templates: Record<CountdownUnitKey, [string, string]> = {
+    years: [strings.humanYear, strings.humanYears],
+    months: [strings.humanMonth, strings.humanMonths],
+    weeks: [strings.humanWeek, strings.humanWeeks],
+    days: [strings.humanDay, strings.humanDays],
+    hours: [strings.humanHour, strings.humanHours],
+    minutes: [strings.humanMinute, strings.humanMinutes],
+    seconds: [strings.humanSecond, strings.humanSeconds]
+  };
+  return formatString(templates[unit][count === 1 ? 0 : 1], { count: String(count) });
+}
+
+const WORK_TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+/** Minutes after midnight of an `HH:mm` time, or null when it is not one. */
+function parseWorkTime(input: string): number | null {
+  const match = input.trim().match(WORK_TIME_PATTERN);
+  if (!match) {
     return null;
   }
-  const value = input.trim();
-  const match = value.match(/^#([0-9a-fA-F]{6})$/);
-  return match ? `#${match[1].toUpperCase()}` : null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= 24 * 60 ? minutes : null;
 }
 
-function colorsEqual(a: string, b: string) {
-  return normaliseColor(a) === normaliseColor(b);
+function buildWorkingCalendar(settings: CountdownPluginSettings): WorkingCalendar {
+  const start = parseWorkTime(settings.workdayStart);
+  const end = parseWorkTime(settings.workdayEnd);
+  // Hours edited by hand into data.json fall back to the defaults rather than counting nothing.
+  const hours =
+    start !== null && end !== null && end > start
+      ? { start, end }
+      : { start: parseWorkTime(DEFAULT_SETTINGS.workdayStart) ?? 0, end: parseWorkTime(DEFAULT_SETTINGS.workdayEnd) ?? 0 };
+  const exceptions = new Map<string, boolean>();
+  settings.holidays.forEach((date) => exceptions.set(date, false));
+  settings.extraWorkdays.forEach((date) => exceptions.set(date, true));
+  return { workdays: settings.workdays, ...hours, exceptions };
 }
 
-function parseTargetDate(input: string | undefined): Date | null {
-  if (!input) {
+function isWorkingDay(day: Date, calendar: WorkingCalendar) {
+  return calendar.exceptions.get(formatDateKey(day)) ?? calendar.workdays.includes(day.getDay());
+}
+
+/** The working time between two instants, walked day by day in the device's zone. */
+function countWorkingMs(start: Date, end: Date, calendar: WorkingCalendar) {
+  let total = 0;
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  while (day.getTime() < end.getTime()) {
+    if (isWorkingDay(day, calendar)) {
+      const open = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, calendar.start).getTime();
+      const close = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, calendar.end).getTime();
+      total += Math.max(0, Math.min(close, end.getTime()) - Math.max(open, start.getTime()));
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return total;
+}
+
+/**
+ * Splits an amount of working time into the requested units: a day is one working day
+ * and a week one working week. Years and months have no working length and stay zero.
+ */
+function breakdownWorkingDuration(
+  ms: number,
+  units: CountdownUnitKey[],
+  calendar: WorkingCalendar
+): Record<CountdownUnitKey, number> {
+  const values: Record<CountdownUnitKey, number> = {
+    years: 0,
+    months: 0,
+    weeks: 0,
+    days: 0,
+    hours: 0,
+    minutes: 0,
+    seconds: 0
+  };
+  const dayMs = (calendar.end - calendar.start) * UNIT_MS.minutes;
+  const lengths = { ...UNIT_MS, weeks: dayMs * calendar.workdays.length, days: dayMs };
+
+  let remaining = Math.max(0, ms);
+  (["weeks", "days", "hours", "minutes", "seconds"] as const).forEach((unit) => {
+    if (!units.includes(unit) || lengths[unit] <= 0) {
+      return;
+    }
+    values[unit] = Math.floor(remaining / lengths[unit]);
+    remaining -= values[unit] * lengths[unit];
+  });
+
+  return values;
+}
+
+/** Dates read from a holiday list: `true` marks a make-up workday, `false` a day off. */
+type HolidayDates = Map<string, boolean>;
+
+const HOLIDAY_DATE_PATTERN = /(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/g;
+const WORKDAY_MARKER_PATTERN = /\bwork(?:day)?\b|班/i;
+
+const HOLIDAY_FILE_EXTENSIONS = ["ics", "json", "csv", "txt"];
+
+/** Longest range a single line or event may cover. */
+const MAX_HOLIDAY_RANGE_DAYS = 366;
+
+/** Reads a holiday list by its extension: .ics calendars, .json (holiday-cn) or plain text. */
+function parseHolidayFile(extension: string, content: string): HolidayDates {
+  switch (extension.toLowerCase()) {
+    case "ics":
+      return parseHolidayEvents(parseIcsEvents(content));
+    case "json":
+      return parseHolidayJson(content);
+    default:
+      return parseHolidayLines(content);
+  }
+}
+
+/**
+ * One date or range per line: `2026-10-01`, `2026-10-01 2026-10-07 National Day`,
+ * or `2026-10-11 work` (or `班`) for a make-up workday. Lines without a date are skipped.
+ */
+function parseHolidayLines(text: string): HolidayDates {
+  const dates: HolidayDates = new Map();
+  text.split(/\r?\n/).forEach((line) => {
+    const found = Array.from(line.matchAll(HOLIDAY_DATE_PATTERN), ([, year, month, day]) => {
+      const date = new Date(Number(year), Number(month) - 1, Number(day));
+      // Dates such as 2026-02-30 would otherwise roll over into the next month.
+      return date.getMonth() === Number(month) - 1 && date.getDate() === Number(day) ? date : null;
+    });
+    const [first, last] = found;
+    if (first && !found.includes(null)) {
+      const worked = WORKDAY_MARKER_PATTERN.test(line.replace(HOLIDAY_DATE_PATTERN, ""));
+      addHolidayRange(dates, first, last ?? first, worked);
+    }
+  });
+  return dates;
+}
+
+/** All-day events are days off, or workdays when their title says so ("上班", "Workday"). */
+function parseHolidayEvents(events: IcsEvent[]): HolidayDates {
+  const dates: HolidayDates = new Map();
+  events.forEach((event) => {
+    // DTEND is exclusive, so a one-day event ends at the next midnight.
+    const last = event.end && event.end > event.start ? new Date(event.end.getTime() - 1) : event.start;
+    addHolidayRange(dates, event.start, last, WORKDAY_MARKER_PATTERN.test(event.summary));
+  });
+  return dates;
+}
+
+/**
+ * The holiday-cn format, `{ "days": [{ "date": "2026-10-11", "isOffDay": false }] }`,
+ * or a plain array of holiday dates. Unreadable files give no dates.
+ */
+function parseHolidayJson(content: string): HolidayDates {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return new Map();
+  }
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && Array.isArray((data as { days?: unknown }).days)
+      ? (data as { days: unknown[] }).days
+      : [];
+  return parseHolidayLines(
+    entries
+      .map((entry) => {
+        if (typeof entry === "string") {
+          return entry;
+        }
+        const { date, isOffDay } = (entry ?? {}) as { date?: unknown; isOffDay?: unknown };
+        return typeof date === "string" ? `${date}${isOffDay === false ? " work" : ""}` : "";
+      })
+      .join("\n")
+  );
+}
+
+function addHolidayRange(dates: HolidayDates, first: Date, last: Date, worked: boolean) {
+  const day = new Date(first.getFullYear(), first.getMonth(), first.getDate());
+  for (let count = 0; day.getTime() <= last.getTime() && count < MAX_HOLIDAY_RANGE_DAYS; count++) {
+    dates.set(formatDateKey(day), worked);
+    day.setDate(day.getDate() + 1);
+  }
+}
+
+/** The settings' holiday lists in the one-date-per-line form `parseHolidayLines` reads. */
+function formatHolidayLines(settings: CountdownPluginSettings) {
+  return [...settings.holidays, ...settings.extraWorkdays.map((date) => `${date} work`)].sort().join("\n");
+}
+
+function formatDateKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function getUnitLabel(unit: CountdownUnitKey, strings: Translations) {
+  const labels: Record<CountdownUnitKey, string> = {
+    years: strings.unitYears,
+    months: strings.unitMonths,
+    weeks: strings.unitWeeks,
+    days: strings.unitDays,
+    hours: strings.unitHours,
+    minutes: strings.unitMinutes,
+    seconds: strings.unitSeconds
+  };
+  return labels[unit];
+}
+
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const ICS_LINE_OCTETS = 75;
+const ICS_DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i;
+/** RRULE parts an import understands. `UNTIL` and `COUNT` are left out: `repeat:` has no end. */
+const ICS_RRULE_KEYS = ["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "BYMONTH", "BYHOUR", "BYMINUTE", "BYSECOND", "WKST"];
+
+/**
+ * One VEVENT per countdown. Recurring countdowns are written in the block's zone (or the device's)
+ * with a TZID and a matching VTIMEZONE, so their occurrences keep the same wall-clock time across DST.
+ */
+function serializeIcsCalendar(entries: IndexedCountdown[], now: Date) {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Countdown Timer//Obsidian//EN", "CALSCALE:GREGORIAN"];
+  const events: string[] = [];
+  // Each zone referenced by a TZID, with the year its VTIMEZONE rules are taken from.
+  const timeZones = new Map<string, number>();
+
+  entries.forEach((entry) => {
+    events.push("BEGIN:VEVENT", `UID:${escapeIcsText(entry.id)}@obsidian-countdown`, `DTSTAMP:${formatIcsUtc(now)}`);
+    const timeZone = entry.timeZone ?? getLocalTimeZone();
+    const wall = toZonedWallClock(entry.target, timeZone);
+    const rrule = entry.repeat ? formatIcsRecurrence(entry.repeat, wall) : null;
+    if (rrule) {
+      if (!timeZones.has(timeZone)) {
+        timeZones.set(timeZone, wall.getFullYear());
+      }
+      events.push(`DTSTART;TZID=${timeZone}:${formatIcsLocal(wall)}`, `RRULE:${rrule}`);
+    } else {
+      // A rule iCalendar cannot express is exported as its next occurrence.
+      events.push(`DTSTART:${formatIcsUtc(getEntryTarget(entry, now.getTime()))}`);
+    }
+    events.push(`SUMMARY:${escapeIcsText(entry.label)}`, `DESCRIPTION:${escapeIcsText(entry.path)}`, "END:VEVENT");
+  });
+
+  timeZones.forEach((year, timeZone) => lines.push(...formatIcsTimeZone(timeZone, year)));
+  lines.push(...events, "END:VCALENDAR");
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * The VTIMEZONE of a zone, with the DST changes of `year` written as yearly rules.
+ * Zones whose changes do not fall on a fixed weekday of the month are only exact for that year.
+ */
+function formatIcsTimeZone(timeZone: string, year: number) {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  const transitions = findTimeZoneTransitions(timeZone, year);
+  if (!transitions.length) {
+    const offset = formatIcsOffset(getTimeZoneOffset(new Date(Date.UTC(year, 0, 1)), timeZone));
+    lines.push("BEGIN:STANDARD", "DTSTART:19700101T000000", `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, "END:STANDARD");
+  }
+  transitions.forEach(({ instant, from, to }) => {
+    const kind = to > from ? "DAYLIGHT" : "STANDARD";
+    // The change as a wall-clock time in the offset in force before it, kept in the UTC fields.
+    const wall = new Date(instant + from);
+    const day = wall.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(year, wall.getUTCMonth() + 1, 0)).getUTCDate();
+    const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatIcsUtc(wall).slice(0, -1)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${wall.getUTCMonth() + 1};BYDAY=${week}${ICS_WEEKDAYS[wall.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatIcsOffset(from)}`,
+      `TZOFFSETTO:${formatIcsOffset(to)}`,
+      `END:${kind}`
+    );
+  });
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+/** The offset changes of a zone during `year`, found day by day and narrowed down to the minute. */
+function findTimeZoneTransitions(timeZone: string, year: number) {
+  const transitions: { instant: number; from: number; to: number }[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previous = Date.UTC(year, 0, 1);
+  let offset = getTimeZoneOffset(new Date(previous), timeZone);
+  for (let time = previous + UNIT_MS.days; time <= end; time += UNIT_MS.days) {
+    const next = getTimeZoneOffset(new Date(time), timeZone);
+    if (next !== offset) {
+      let low = previous;
+      let high = time;
+      while (high - low > UNIT_MS.minutes) {
+        const middle = low + Math.floor((high - low) / 2 / UNIT_MS.minutes) * UNIT_MS.minutes;
+        if (getTimeZoneOffset(new Date(middle), timeZone) === offset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ instant: high, from: offset, to: next });
+      offset = next;
+    }
+    previous = time;
+  }
+  return transitions;
+}
+
+/** "+0800" for an offset in milliseconds. */
+function formatIcsOffset(offset: number) {
+  const minutes = Math.round(Math.abs(offset) / UNIT_MS.minutes);
+  return `${offset < 0 ? "-" : "+"}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+/** The RRULE value for a repeat rule, or null for cron rules that restrict both days and weekdays. */
+function formatIcsRecurrence(rule: RecurrenceRule, anchor: Date): string | null {
+  switch (rule.kind) {
+    case "daily":
+      return "FREQ=DAILY";
+    case "weekly": {
+      const weekdays = rule.weekdays.length ? rule.weekdays : [anchor.getDay()];
+      return `FREQ=WEEKLY;BYDAY=${weekdays.map((day) => ICS_WEEKDAYS[day]).join(",")}`;
+    }
+    case "monthly": {
+      const day = rule.day === "last" ? -1 : rule.day ?? anchor.getDate();
+      return `FREQ=MONTHLY;BYMONTHDAY=${day}`;
+    }
+    case "cron": {
+      const { schedule } = rule;
+      // Cron matches either field when both are restricted; BYMONTHDAY and BYDAY would require both.
+      if (schedule.daysRestricted && schedule.weekdaysRestricted) {
+        return null;
+      }
+      const parts = ["FREQ=DAILY"];
+      if (schedule.months.length < 12) {
+        parts.push(`BYMONTH=${schedule.months.join(",")}`);
+      }
+      if (schedule.daysRestricted) {
+        parts.push(`BYMONTHDAY=${schedule.days.join(",")}`);
+      }
+      if (schedule.weekdaysRestricted) {
+        parts.push(`BYDAY=${schedule.weekdays.map((day) => ICS_WEEKDAYS[day]).join(",")}`);
+      }
+      parts.push(`BYHOUR=${schedule.hours.join(",")}`, `BYMINUTE=${schedule.minutes.join(",")}`, "BYSECOND=0");
+      return parts.join(";");
+    }
+  }
+}
+
+/** Reads the VEVENTs of a calendar, earliest first. Cancelled events and events without a start are skipped. */
+function parseIcsEvents(content: string): IcsEvent[] {
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let properties: Map<string, IcsProperty> | null = null;
+  // Depth of components nested in the current VEVENT, such as VALARM, whose properties are ignored.
+  let nested = 0;
+
+  lines.forEach((line) => {
+    const property = parseIcsProperty(line);
+    if (!property) {
+      return;
+    }
+
+    if (property.name === "BEGIN") {
+      if (properties) {
+        nested++;
+      } else if (property.value.toUpperCase() === "VEVENT") {
+        properties = new Map();
+      }
+      return;
+    }
+
+    if (property.name === "END" && properties) {
+      if (nested) {
+        nested--;
+        return;
+      }
+      const event = buildIcsEvent(properties);
+      if (event) {
+        events.push(event);
+      }
+      properties = null;
+      return;
+    }
+
+    if (properties && !nested && !properties.has(property.name)) {
+      properties.set(property.name, property);
+    }
+  });
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+function parseIcsProperty(line: string): IcsProperty | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      quoted = !quoted;
+    } else if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) {
     return null;
   }
 
-  const normalized = input.trim().replace(/\s+/, "T");
-  const timestamp = Date.parse(normalized);
-  if (Number.isNaN(timestamp)) {
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params = new Map<string, string>();
+  rawParams.forEach((param) => {
+    const separator = param.indexOf("=");
+    if (separator > 0) {
+      params.set(param.slice(0, separator).toUpperCase(), param.slice(separator + 1).replace(/^"|"$/g, ""));
+    }
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function buildIcsEvent(properties: Map<string, IcsProperty>): IcsEvent | null {
+  const dtstart = properties.get("DTSTART");
+  if (!dtstart || properties.get("STATUS")?.value.toUpperCase() === "CANCELLED") {
     return null;
   }
 
-  const date = new Date(timestamp);
-  return Number.isNaN(date.getTime()) ? null : date;
+  const start = parseIcsDate(dtstart);
+  if (!start) {
+    return null;
+  }
+
+  const dtend = properties.get("DTEND");
+  const rrule = properties.get("RRULE")?.value;
+  const repeat = rrule ? parseIcsRecurrence(rrule, start.date) : null;
+  return {
+    summary: unescapeIcsText(properties.get("SUMMARY")?.value ?? "").trim(),
+    start: start.date,
+    end: dtend ? parseIcsDate(dtend)?.date ?? null : null,
+    timeZone: start.timeZone,
+    repeat,
+    repeatUnsupported: Boolean(rrule) && !repeat
+  };
 }
 
-function toDateTimeLocalInput(date: Date): string {
-  const year = date.getFullYear();
-  const month = pad(date.getMonth() + 1);
-  const day = pad(date.getDate());
-  const hours = pad(date.getHours());
-  const minutes = pad(date.getMinutes());
-  return `${year}-${month}-${day}T${hours}:${minutes}`;
+/**
+ * UTC times (`…Z`) are exact, times with a known TZID are read in that zone,
+ * and floating times and all-day dates are read in the device's zone (all-day at midnight).
+ */
+function parseIcsDate(property: IcsProperty): { date: Date; timeZone: string | null } | null {
+  const match = property.value.trim().match(ICS_DATE_TIME_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0", utc] = match;
+  const wall = new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+  if (Number.isNaN(wall.getTime())) {
+    return null;
+  }
+  if (utc) {
+    const instant = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+    return { date: new Date(instant), timeZone: null };
+  }
+
+  const timeZone = match[4] ? normaliseTimeZone(property.params.get("TZID")) : null;
+  if (!timeZone || timeZone === getLocalTimeZone()) {
+    return { date: wall, timeZone: null };
+  }
+  return { date: fromZonedWallClock(wall, timeZone), timeZone };
+}
+
+/** Maps an RRULE onto a `repeat:` rule; null when it uses intervals, an end (`UNTIL`, `COUNT`) or parts the block syntax lacks. */
+function parseIcsRecurrence(value: string, start: Date): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  value.split(";").forEach((part) => {
+    const [key, partValue = ""] = part.split("=");
+    parts.set(key.trim().toUpperCase(), partValue.trim().toUpperCase());
+  });
+  if (Array.from(parts.keys()).some((key) => !ICS_RRULE_KEYS.includes(key)) || (parts.get("INTERVAL") ?? "1") !== "1") {
+    return null;
+  }
+
+  // Ordinal weekdays such as `2MO` are not in the list and so are rejected.
+  const byDay = parts.get("BYDAY")?.split(",").map((day) => ICS_WEEKDAYS.indexOf(day));
+  const byMonthDay = parts.get("BYMONTHDAY")?.split(",");
+  if (byDay?.some((day) => day < 0)) {
+    return null;
+  }
+  const weekdays = byDay ? Array.from(new Set(byDay)).sort((a, b) => a - b) : [];
+
+  // Rules that pin hours, minutes or months (as the cron export does) become cron expressions.
+  const frequency = parts.get("FREQ");
+  if (parts.has("BYHOUR") || parts.has("BYMINUTE") || parts.has("BYMONTH")) {
+    if ((frequency !== "DAILY" && frequency !== "WEEKLY") || (byDay && byMonthDay) || (parts.get("BYSECOND") ?? "0") !== "0") {
+      return null;
+    }
+    const expression = [
+      parts.get("BYMINUTE") ?? String(start.getMinutes()),
+      parts.get("BYHOUR") ?? String(start.getHours()),
+      byMonthDay?.join(",") ?? "*",
+      parts.get("BYMONTH") ?? "*",
+      byDay ? weekdays.join(",") : frequency === "WEEKLY" ? String(start.getDay()) : "*"
+    ].join(" ");
+    const schedule = parseCronExpression(expression);
+    return schedule ? { kind: "cron", expression, schedule } : null;
+  }
+  if (parts.has("BYSECOND")) {
+    return null;
+  }
+
+  switch (frequency) {
+    case "DAILY":
+      if (byMonthDay) {
+        return null;
+      }
+      return byDay ? { kind: "weekly", weekdays } : { kind: "daily" };
+    case "WEEKLY":
+      return byMonthDay ? null : { kind: "weekly", weekdays };
+    case "MONTHLY": {
+      if (byDay || (byMonthDay && byMonthDay.length !== 1)) {
+        return null;
+      }
+      if (!byMonthDay) {
+        return { kind: "monthly", day: null };
+      }
+      if (byMonthDay[0] === "-1") {
+        return { kind: "monthly", day: "last" };
+      }
+      const day = Number(byMonthDay[0]);
+      return Number.isInteger(day) && day >= 1 && day <= 31 ? { kind: "monthly", day } : null;
+    }
+    case "YEARLY": {
+      if (byDay || byMonthDay) {
+        return null;
+      }
+      const expression = `${start.getMinutes()} ${start.getHours()} ${start.getDate()} ${start.getMonth() + 1} *`;
+      const schedule = parseCronExpression(expression);
+      return schedule ? { kind: "cron", expression, schedule } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function formatIcsUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatIcsLocal(date: Date) {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function escapeIcsText(text: string) {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function unescapeIcsText(text: string) {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+}
+
+/** Splits a content line into 75-octet pieces; continuation lines start with a space. */
+function foldIcsLine(line: string) {
+  const pieces: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const code = char.codePointAt(0) ?? 0;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    const limit = pieces.length ? ICS_LINE_OCTETS - 1 : ICS_LINE_OCTETS;
+    if (octets + size > limit) {
+      pieces.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  pieces.push(current);
+  return pieces.join("\r\n ");
+}
+
+/**
+ * Formats with the moment instance Obsidian ships. Its typings describe it as a namespace,
+ * which hides the call signature under `esModuleInterop`.
+ */
+function formatMoment(date: Date, pattern: string) {
+  return (moment as unknown as (input: Date) => { format(pattern: string): string })(date).format(pattern);
+}
+
+/** Folder and date format of the Daily notes core plugin, which has no public API. */
+function getDailyNoteSettings(app: App): { folder: string; format: string } {
+  const internalPlugins = (
+    app as unknown as {
+      internalPlugins?: {
+        getPluginById(id: string): { instance?: { options?: { folder?: string; format?: string } } } | null;
+      };
+    }
+  ).internalPlugins;
+  const options = internalPlugins?.getPluginById("daily-notes")?.instance?.options;
+  return { folder: options?.folder?.trim() ?? "", format: options?.format?.trim() || "YYYY-MM-DD" };
+}
+
+/** The date a daily note stands for, read from its path with the Daily notes date format. */
+function getDailyNoteDate(app: App, file: TFile): Date | null {
+  const { folder, format } = getDailyNoteSettings(app);
+  const prefix = folder ? `${normalizePath(folder)}/` : "";
+  if (!file.path.startsWith(prefix) || file.extension !== "md") {
+    return null;
+  }
+  const name = file.path.slice(prefix.length, -".md".length);
+  const parsed = (
+    moment as unknown as (input: string, pattern: string, strict: boolean) => { isValid(): boolean; toDate(): Date }
+  )(name, format, true);
+  return parsed.isValid() ? parsed.toDate() : null;
+}
+
+/** Template folders of the Templates core plugin and of Templater, which have no public API. */
+function getTemplateFolders(app: App): string[] {
+  const { internalPlugins, plugins } = app as unknown as {
+    internalPlugins?: {
+      getPluginById(id: string): { instance?: { options?: { folder?: string } } } | null;
+    };
+    plugins?: {
+      getPlugin(id: string): { settings?: { templates_folder?: string } } | null;
+    };
+  };
+  return [
+    internalPlugins?.getPluginById("templates")?.instance?.options?.folder,
+    plugins?.getPlugin("templater-obsidian")?.settings?.templates_folder
+  ]
+    .map((folder) => folder?.trim())
+    .filter((folder): folder is string => Boolean(folder) && folder !== "/")
+    .map((folder) => normalizePath(folder));
+}
+
+/** Replaces `{name}` placeholders in a translated string. */
+function formatString(template: string, values: Record<string, string>) {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+function playNotificationSound() {
+  const AudioContextClass =
+    window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) {
+    return;
+  }
+
+  const context: AudioContext = new AudioContextClass();
+  [0, 0.25].forEach((offset) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = "sine";
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.0001, context.currentTime + offset);
+    gain.gain.exponentialRampToValueAtTime(0.2, context.currentTime + offset + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, context.currentTime + offset + 0.2);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(context.currentTime + offset);
+    oscillator.stop(context.currentTime + offset + 0.22);
+  });
+  window.setTimeout(() => void context.close(), 1000);
+}
+
+/**
+ * Finds where `expected` appears as consecutive whole lines of `lines`. When it
+ * appears more than once, only the match at `hint` is trusted; the block may have
+ * moved, and picking the nearest copy could edit the wrong one. Returns null when
+ * it is gone or ambiguous.
+ */
+function findLines(lines: string[], expected: string[], hint: number): number | null {
+  const matches: number[] = [];
+  for (let start = 0; start + expected.length <= lines.length; start++) {
+    if (expected.every((line, offset) => lines[start + offset] === line)) {
+      matches.push(start);
+    }
+  }
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  return matches.includes(hint) ? hint : null;
 }
 
 function pad(value: number) {
   return value.toString().padStart(2, "0");
 }
 
-function getTranslations(app: App): Translations {
-  const locale = getAppLanguage(app).toLowerCase();
-  if (locale.startsWith("zh")) {
-    return zhStrings;
+/**
+ * Accepts either a flat object of strings, applied to every language, or an
+ * object keyed by locale code whose values are such flat objects. Unknown keys
+ * and non-string values are dropped.
+ */
+function parseTranslationOverrides(raw: unknown): TranslationOverrides {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("expected a JSON object");
   }
-  return enStrings;
+  const overrides: TranslationOverrides = {};
+  const pick = (code: string, values: Record<string, unknown>) => {
+    Object.entries(values).forEach(([key, value]) => {
+      if (typeof value === "string" && key in LOCALES.en.strings) {
+        (overrides[code] ??= {})[key as keyof Translations] = value;
+      }
+    });
+  };
+  Object.entries(raw as Record<string, unknown>).forEach(([key, value]) => {
+    if (typeof value === "string") {
+      pick("*", { [key]: value });
+    } else if (value && typeof value === "object" && !Array.isArray(value)) {
+      pick(key.trim().toLowerCase().replace(/_/g, "-"), value as Record<string, unknown>);
+    }
+  });
+  return overrides;
 }
 
-function getAppLanguage(app: App): string {
+function getAppLanguage(): string {
   const locale = getLanguage?.();
   if (typeof locale === "string" && locale.length) {
     return locale;
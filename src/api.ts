@@ -0,0 +1,82 @@
+import type { Editor, EditorPosition, EventRef, TFile } from "obsidian";
+import type { Translations } from "./locales";
+
+/**
+ * The plugin's public surface, available as `app.plugins.getPlugin("lark-style-countdown-timer").api`.
+ * `version` goes up whenever something is added; nothing is removed without a new major version.
+ */
+export interface CountdownApi {
+  readonly version: number;
+  /**
+   * Every countdown block the vault index knows about, soonest first. Like the sidebar list,
+   * the index leaves out paused countdowns, stopwatches and `mode: since` blocks.
+   */
+  getCountdowns(): CountdownInfo[];
+  /**
+   * The countdown block covering `line` (zero-based) of the note at `path`. Null both when
+   * there is none and when the index leaves the block out, as it does while a block is paused.
+   */
+  getCountdown(path: string, line: number): CountdownInfo | null;
+  /** Milliseconds until the block's target (negative once it has passed); null when `getCountdown` is. */
+  getRemaining(path: string, line: number, now?: number): number | null;
+  /** Formats a duration the way blocks do, with the plugin's default units and format unless given. */
+  formatDuration(ms: number, options?: CountdownFormatOptions): string;
+  /** The interface strings in the current language, including overrides. */
+  getStrings(): Translations;
+  /** The Markdown of a countdown block, fences included. Throws when an option cannot be read. */
+  buildBlock(options: CountdownCreateOptions): string;
+  /** Inserts a block at `position`, or at the cursor. */
+  insertCountdown(editor: Editor, options: CountdownCreateOptions, position?: EditorPosition): void;
+  /**
+   * Adds a block to the note at `path`, before `line` (zero-based) or at the end,
+   * creating the note and its folders when they do not exist. An open note is edited
+   * through its editor, keeping its cursor and undo history.
+   */
+  addCountdown(path: string, options: CountdownCreateOptions, line?: number): Promise<TFile>;
+}
+
+/** A countdown block as the vault index sees it. Line numbers are zero-based and include the fences. */
+export interface CountdownInfo {
+  id: string;
+  path: string;
+  lineStart: number;
+  lineEnd: number;
+  /** The target, or for recurring countdowns the next occurrence at the time of the call. */
+  target: Date;
+  label: string;
+  color: string;
+  /** The `repeat:` rule as written in blocks, such as `weekly mon,fri`. */
+  repeat: string | null;
+  notify: boolean;
+  pinned: boolean;
+}
+
+export interface CountdownCreateOptions {
+  /** A date, or text such as `2026-12-31 17:00`, `in 3h` or `next Friday 17:00`. */
+  target: Date | string;
+  label?: string;
+  /** Any colour a block accepts; defaults to the plugin's default colour. */
+  color?: string;
+  /** A `repeat:` rule such as `daily`, `weekly mon,fri` or `cron 0 9 * * 1-5`. */
+  repeat?: string;
+  /** IANA zone the target is written in, such as `Asia/Shanghai`. */
+  timeZone?: string;
+  /** Start of the progress window. */
+  start?: Date;
+}
+
+export type CountdownUnitName = "years" | "months" | "weeks" | "days" | "hours" | "minutes" | "seconds";
+
+export interface CountdownFormatOptions {
+  units?: CountdownUnitName[];
+  format?: "digits" | "compact" | "human";
+}
+
+declare module "obsidian" {
+  interface Workspace {
+    /** A countdown block reached its target, or an occurrence of its repeat rule. Paused blocks never fire. */
+    on(name: "countdown:expired", callback: (countdown: CountdownInfo) => unknown, ctx?: unknown): EventRef;
+    /** The countdown blocks of the note at `path` changed; `path` is null after the whole vault was re-indexed. */
+    on(name: "countdown:updated", callback: (path: string | null) => unknown, ctx?: unknown): EventRef;
+  }
+}
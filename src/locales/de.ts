@@ -0,0 +1,217 @@
+import type { Translations } from "./translations";
+
+export const de: Translations = {
+  commandInsert: "Countdown einfügen",
+  commandOpenList: "Alle Countdowns anzeigen",
+  commandConvertTask: "Aufgabe in Countdown umwandeln",
+  commandExportVault: "Alle Countdowns als .ics exportieren",
+  commandExportNote: "Countdowns dieser Notiz als .ics exportieren",
+  commandImportIcs: "Termine aus .ics-Datei importieren",
+  exportDone: "{count} Countdowns nach {path} exportiert.",
+  exportEmpty: "Es gibt keine Countdowns zum Exportieren.",
+  importChooseFile: ".ics-Datei auswählen…",
+  importNoFiles: "Keine .ics-Dateien im Tresor gefunden.",
+  importNoEvents: "Keine Termine in {file} gefunden.",
+  importHeading: "Termine importieren",
+  importHint: "Wähle die Termine, die als Countdown-Blöcke eingefügt werden sollen. Anstehende und wiederkehrende Termine sind vorausgewählt.",
+  importRepeats: "Wiederholt sich: {rule}",
+  importRepeatUnsupported: "Die Wiederholung lässt sich nicht übernehmen; nur das erste Datum wird importiert.",
+  importDone: "{count} Countdowns eingefügt.",
+  settingsTaskCountdowns: "Countdowns für Fälligkeitsdaten",
+  settingsTaskCountdownsHint: "Zeigt einen kompakten Countdown hinter offenen Aufgaben mit einem 📅-Datum oder [due:: Datum].",
+  listViewTitle: "Alle Countdowns",
+  listEmpty: "In diesem Tresor gibt es noch keine Countdown-Blöcke.",
+  insertHeading: "Countdown einfügen",
+  editHeading: "Countdown bearbeiten",
+  targetLabel: "Zielzeit",
+  targetPreview: "Ergibt {date}",
+  timeZoneLabel: "Zeitzone",
+  timeZoneHint: "Die Zeitzone, in der die Zielzeit angegeben ist. Betrachter sehen sie zusätzlich in ihrer eigenen Zone.",
+  timeZoneDevice: "Dieses Gerät ({zone})",
+  timeZoneLocal: "deine Zeit",
+  targetHint: "Wähle die Endzeit oder tippe englische Angaben wie „in 3h 20m“, „next Friday 17:00“, „tomorrow noon“ oder „end of month“.",
+  labelLabel: "Beschriftung",
+  labelHint: "Wird unter den Ziffern angezeigt.",
+  colorLabel: "Farbe",
+  colorHint: "Akzentfarbe der Countdown-Blöcke.",
+  modeLabel: "Modus",
+  modeHint: "Bis zu einem Zeitpunkt herunterzählen, ab einem vergangenen Zeitpunkt hochzählen oder eine Stoppuhr laufen lassen.",
+  modeCountdown: "Herunterzählen",
+  modeSince: "Zeit seit",
+  modeStopwatch: "Stoppuhr",
+  stopwatchStart: "Start",
+  stopwatchStop: "Stopp",
+  stopwatchReset: "Zurücksetzen",
+  repeatLabel: "Wiederholen",
+  repeatHint: "Zählt immer bis zum nächsten Termin herunter.",
+  repeatNone: "Keine Wiederholung",
+  repeatDaily: "Täglich",
+  repeatWeekly: "Wöchentlich",
+  repeatMonthly: "Monatlich",
+  repeatCron: "Benutzerdefiniert (cron)",
+  repeatWeekdaysLabel: "An",
+  repeatMonthDayLabel: "Tag des Monats",
+  repeatMonthLast: "Letzter Tag",
+  repeatCronLabel: "Cron-Ausdruck",
+  repeatCronHint: "Minute, Stunde, Tag, Monat, Wochentag – z. B. 0 9 * * 1-5.",
+  repeatInvalid: "Ungültige Wiederholungsregel.",
+  occurrenceNext: "Nächster: {date}",
+  occurrencePrevious: "Vorheriger: {date}",
+  expiryLabel: "Nach Ablauf",
+  expiryHint: "Was der Block zeigt, sobald die Zielzeit vorbei ist.",
+  expiryFreeze: "Bei null anhalten",
+  expiryElapsed: "Verstrichene Zeit zählen",
+  expiryMessage: "Nachricht anzeigen",
+  expiryMessageLabel: "Abschlussnachricht",
+  expiryMessageHint: "Ersetzt die Ziffern, wenn der Countdown endet.",
+  expiredCaption: "Beendet",
+  modalConfirm: "Bestätigen",
+  modalCancel: "Abbrechen",
+  emptyWarning: "Bitte wähle ein Zieldatum und eine Uhrzeit.",
+  parseWarning: "Das Zieldatum konnte nicht gelesen werden.",
+  applyError: "Die Änderungen am Countdown konnten nicht übernommen werden.",
+  blockChanged: "Die Notiz hat sich geändert, seit der Countdown angezeigt wurde; die Änderung wurde nicht übernommen. Bitte erneut versuchen.",
+  openMarkdownWarning: "Öffne eine Markdown-Datei, um den Countdown einzufügen.",
+  blockMissingTarget: "Der Countdown-Block braucht ein Zieldatum.",
+  blockInvalidTarget: "Ungültiges Zieldatum im Countdown.",
+  blockMissingProperty: "Aus der Eigenschaft „{property}“ von {note} konnte kein Datum gelesen werden.",
+  startLabel: "Start",
+  startHint: "Optional. Wenn gesetzt, zeigt ein Fortschrittsbalken, wie viel der Zeit vom Start bis zum Ziel vergangen ist.",
+  startAfterTarget: "Die Startzeit muss vor dem Ziel liegen.",
+  progressElapsed: "{percent} % vergangen",
+  timelineEmpty: "Füge Meilensteine als Zeilen wie „- 2026-03-01 17:00; Code-Freeze“ hinzu.",
+  timelineInvalidLine: "Meilenstein nicht lesbar: {line}",
+  timelineDone: "Erledigt",
+  timelineComplete: "Alle Meilensteine erreicht",
+  toolbarEdit: "Countdown bearbeiten",
+  toolbarColour: "Farbe ändern",
+  toolbarPin: "In der Statusleiste anheften",
+  toolbarUnpin: "Von der Statusleiste lösen",
+  toolbarPause: "Pausieren",
+  toolbarResume: "Fortsetzen",
+  toolbarAddTime: "{minutes} Minuten hinzufügen",
+  toolbarSubtractTime: "{minutes} Minuten abziehen",
+  pausedCaption: "Pausiert",
+  colorPopoverTitle: "Farbe",
+  defaultLabel: "Countdown",
+  settingsDefaultLabel: "Standardbeschriftung",
+  settingsDefaultDuration: "Standarddauer (Minuten)",
+  settingsDefaultColour: "Standardfarbe",
+  settingsDefaultColourHint: "Wähle eine Palettenfarbe oder gib eine beliebige Farbe ein: #36F, #3370FF80, rgb(51 112 255), hsl(220 100% 60%) oder eine Designfarbe wie accent oder red.",
+  settingsPaletteHeading: "Farbpalette",
+  settingsPaletteHint: "Farben, die die Farbschaltflächen und der Dialog anbieten, in dieser Reihenfolge. Meilensteine ohne eigene Farbe verwenden sie der Reihe nach.",
+  settingsPaletteAdd: "Farbe hinzufügen",
+  settingsPaletteAddButton: "Hinzufügen",
+  settingsPaletteReset: "Standardpalette wiederherstellen",
+  paletteMoveUp: "Nach oben",
+  paletteMoveDown: "Nach unten",
+  paletteRemove: "Entfernen",
+  colorInvalid: "Diese Farbe wird nicht erkannt. Verwende Hex, rgb(), hsl(), var(--name) oder den Namen einer Designfarbe.",
+  settingsDefaultStyle: "Standardstil",
+  settingsDefaultStyleHint: "Aussehen von Blöcken ohne style:-Zeile.",
+  styleRibbon: "Band",
+  styleMinimal: "Schlichter Text",
+  styleFlip: "Klappuhr",
+  styleHero: "Groß",
+  settingsLanguageHeading: "Sprache",
+  settingsLanguage: "Oberflächensprache",
+  settingsLanguageHint: "Sprache der Beschriftungen, Meldungen und Datumsangaben des Plugins. Befehlsnamen ändern sich nach einem Neustart von Obsidian.",
+  settingsLanguageAuto: "Wie Obsidian ({language})",
+  settingsTranslationFile: "Übersetzungsdatei",
+  settingsTranslationFileHint: "Pfad einer JSON-Datei im Tresor, die Texte überschreibt oder ergänzt, z. B. countdown-translations.json. Sie wird bei jedem Speichern neu gelesen.",
+  settingsTranslationFileReload: "Übersetzungsdatei neu laden",
+  translationFileError: "Die Übersetzungsdatei {path} konnte nicht gelesen werden: {error}",
+  settingsWorkingTimeHeading: "Arbeitszeit",
+  settingsWorkdays: "Arbeitstage",
+  settingsWorkdaysHint: "Tage, die Blöcke mit calendar: business zählen.",
+  settingsWorkHours: "Arbeitszeiten",
+  settingsWorkHoursHint: "Beginn und Ende des Arbeitstags, z. B. 09:00 und 18:00.",
+  settingsHolidays: "Feiertage und Nachholarbeitstage",
+  settingsHolidaysHint: "Ein Datum pro Zeile, z. B. 2026-10-01 oder 2026-10-01 2026-10-07 für einen Zeitraum. Mit \"work\" wird ein Tag zum Arbeitstag.",
+  settingsHolidaysImport: "Importieren…",
+  settingsHolidaysClear: "Leeren",
+  holidaysChooseFile: "Feiertagsdatei wählen (.ics, .json, .csv oder .txt)…",
+  holidaysNoFiles: "Keine .ics-, .json-, .csv- oder .txt-Dateien im Vault gefunden.",
+  holidaysImportDone: "{holidays} Feiertage und {workdays} Nachholarbeitstage importiert.",
+  holidaysImportEmpty: "Keine Daten in {file} gefunden.",
+  businessCalendarTime: "Arbeitszeit · {duration} im Kalender",
+  settingsNotificationsHeading: "Benachrichtigungen",
+  settingsNotificationsEnabled: "Benachrichtigen, wenn ein Countdown endet",
+  settingsNotificationsEnabledHint: "Zeigt einen Hinweis, sobald ein Countdown im Tresor sein Ziel erreicht, auch wenn die Notiz geschlossen ist.",
+  settingsSystemNotifications: "Systembenachrichtigungen",
+  settingsSystemNotificationsHint: "Zeigt zusätzlich eine Desktop-Benachrichtigung. Obsidian fragt beim ersten Mal nach der Erlaubnis.",
+  settingsNotificationSound: "Ton abspielen",
+  settingsNotificationSoundHint: "Spielt bei jeder Benachrichtigung einen kurzen Ton.",
+  settingsReminders: "Erinnerungen vor dem Ziel",
+  settingsRemindersHint: "Kommagetrennte Vorlaufzeiten, z. B. 1d, 15m. Leer lassen, um nur zum Ziel zu benachrichtigen.",
+  ribbonQuickTimer: "Schnelltimer starten",
+  commandStartTimer: "{duration}-Timer starten",
+  commandStartPreset: "Schnelltimer starten…",
+  commandStartPomodoro: "Pomodoro starten",
+  commandStopTimer: "Schnelltimer stoppen",
+  quickTimerLabel: "{duration}-Timer",
+  quickTimerDone: "{label} ist abgelaufen.",
+  quickTimerStop: "Timer stoppen",
+  quickTimerSkip: "Zur nächsten Phase springen",
+  pomodoroWork: "Fokus",
+  pomodoroBreak: "Pause",
+  pomodoroLongBreak: "Lange Pause",
+  pomodoroWorkDone: "Fokuseinheit beendet. Zeit für eine Pause.",
+  pomodoroBreakDone: "Pause vorbei. Zurück zum Fokus.",
+  pomodoroLogEntry: "- 🍅 {start}–{end} Fokuseinheit ({duration})",
+  settingsQuickTimersHeading: "Schnelltimer",
+  settingsCustomPresets: "Eigene Vorgaben",
+  settingsCustomPresetsHint: "Zusätzliche Dauern für das Menü und den Schnelltimer-Befehl, z. B. 10m, 1h30m. 5, 15, 25 und 50 Minuten sind immer verfügbar.",
+  settingsQuickTimerInsert: "Beim Start einen Block einfügen",
+  settingsQuickTimerInsertHint: "Fügt für jeden Schnelltimer auch einen Countdown-Block an der Cursorposition der aktiven Notiz ein.",
+  settingsPomodoroWork: "Pomodoro-Fokus (Minuten)",
+  settingsPomodoroBreak: "Pomodoro-Pause (Minuten)",
+  settingsPomodoroLongBreak: "Lange Pomodoro-Pause (Minuten)",
+  settingsPomodoroLongBreakEvery: "Lange Pause alle",
+  settingsPomodoroLongBreakEveryHint: "Anzahl der Fokuseinheiten vor einer langen Pause.",
+  settingsPomodoroLog: "Einheiten in der täglichen Notiz festhalten",
+  settingsPomodoroLogHint: "Hängt für jede abgeschlossene Fokuseinheit eine Zeile an die heutige tägliche Notiz an, mit Ordner und Datumsformat des Kern-Plugins „Tägliche Notizen“.",
+  notifyReached: "„{label}“ hat die Zielzeit erreicht.",
+  notifyUpcoming: "„{label}“ endet in {time}.",
+  settingsDisplayHeading: "Anzeige",
+  settingsDefaultUnits: "Standardeinheiten",
+  settingsDefaultUnitsHint: "Einheiten für Blöcke ohne units:-Zeile.",
+  settingsDefaultFormat: "Standardformat",
+  settingsDefaultFormatHint: "Darstellung von Blöcken ohne format:-Zeile.",
+  settingsHideLeadingZeros: "Führende Null-Einheiten ausblenden",
+  settingsHideLeadingZerosHint: "Größere Einheiten werden ausgeblendet, solange sie null sind, z. B. 05:12 statt 00 : 00 : 05 : 12.",
+  formatDigits: "Ziffern",
+  formatCompact: "Kompakt (3T 4Std)",
+  formatHuman: "Umgangssprachlich (in etwa 3 Wochen)",
+  humanFuture: "in etwa {duration}",
+  humanPast: "vor etwa {duration}",
+  humanDuration: "etwa {duration}",
+  humanYear: "{count} Jahr",
+  humanYears: "{count} Jahren",
+  humanMonth: "{count} Monat",
+  humanMonths: "{count} Monaten",
+  humanWeek: "{count} Woche",
+  humanWeeks: "{count} Wochen",
+  humanDay: "{count} Tag",
+  humanDays: "{count} Tagen",
+  humanHour: "{count} Stunde",
+  humanHours: "{count} Stunden",
+  humanMinute: "{count} Minute",
+  humanMinutes: "{count} Minuten",
+  humanSecond: "{count} Sekunde",
+  humanSeconds: "{count} Sekunden",
+  shortYears: "J",
+  shortMonths: "Mon",
+  shortWeeks: "W",
+  shortDays: "T",
+  shortHours: "Std",
+  shortMinutes: "Min",
+  shortSeconds: "s",
+  unitYears: "Jahre",
+  unitMonths: "Monate",
+  unitWeeks: "Wochen",
+  unitDays: "Tage",
+  unitHours: "Stunden",
+  unitMinutes: "Minuten",
+  unitSeconds: "Sekunden"
+};
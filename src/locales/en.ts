@@ -0,0 +1,217 @@
+import type { Translations } from "./translations";
+
+export const en: Translations = {
+  commandInsert: "Insert countdown timer",
+  commandOpenList: "Show all countdowns",
+  commandConvertTask: "Convert task to countdown",
+  commandExportVault: "Export all countdowns to .ics",
+  commandExportNote: "Export this note's countdowns to .ics",
+  commandImportIcs: "Import events from .ics file",
+  exportDone: "Exported {count} countdowns to {path}.",
+  exportEmpty: "There are no countdowns to export.",
+  importChooseFile: "Choose an .ics file…",
+  importNoFiles: "No .ics files found in the vault.",
+  importNoEvents: "No events found in {file}.",
+  importHeading: "Import events",
+  importHint: "Choose the events to insert as countdown blocks. Upcoming and recurring events are selected.",
+  importRepeats: "Repeats: {rule}",
+  importRepeatUnsupported: "Its recurrence cannot be converted; only the first date is imported.",
+  importDone: "Inserted {count} countdowns.",
+  settingsTaskCountdowns: "Countdowns on task due dates",
+  settingsTaskCountdownsHint: "Show a compact countdown after open tasks with a 📅 date or [due:: date] annotation.",
+  listViewTitle: "All countdowns",
+  listEmpty: "No countdown blocks in this vault yet.",
+  insertHeading: "Insert countdown",
+  editHeading: "Edit countdown",
+  targetLabel: "Target time",
+  targetPreview: "Resolves to {date}",
+  timeZoneLabel: "Time zone",
+  timeZoneHint: "The zone the target time is written in. Viewers also see it in their own zone.",
+  timeZoneDevice: "This device ({zone})",
+  timeZoneLocal: "your time",
+  targetHint: "Pick the end time, or type e.g. “in 3h 20m”, “next Friday 17:00”, “tomorrow noon” or “end of month”.",
+  labelLabel: "Label",
+  labelHint: "Shown under the digits.",
+  colorLabel: "Colour",
+  colorHint: "Highlight colour for the countdown blocks.",
+  modeLabel: "Mode",
+  modeHint: "Count down to a time, count up from a past time, or run a stopwatch.",
+  modeCountdown: "Count down",
+  modeSince: "Time since",
+  modeStopwatch: "Stopwatch",
+  stopwatchStart: "Start",
+  stopwatchStop: "Stop",
+  stopwatchReset: "Reset",
+  repeatLabel: "Repeat",
+  repeatHint: "Always count down to the next occurrence.",
+  repeatNone: "Does not repeat",
+  repeatDaily: "Daily",
+  repeatWeekly: "Weekly",
+  repeatMonthly: "Monthly",
+  repeatCron: "Custom (cron)",
+  repeatWeekdaysLabel: "On",
+  repeatMonthDayLabel: "Day of month",
+  repeatMonthLast: "Last day",
+  repeatCronLabel: "Cron expression",
+  repeatCronHint: "Minute, hour, day, month, weekday — e.g. 0 9 * * 1-5.",
+  repeatInvalid: "Invalid repeat rule.",
+  occurrenceNext: "Next: {date}",
+  occurrencePrevious: "Previous: {date}",
+  expiryLabel: "When finished",
+  expiryHint: "What the block shows once the target time has passed.",
+  expiryFreeze: "Stop at zero",
+  expiryElapsed: "Count elapsed time",
+  expiryMessage: "Show a message",
+  expiryMessageLabel: "Completion message",
+  expiryMessageHint: "Replaces the digits when the countdown ends.",
+  expiredCaption: "Ended",
+  modalConfirm: "Confirm",
+  modalCancel: "Cancel",
+  emptyWarning: "Please choose a target date and time.",
+  parseWarning: "Unable to parse the target date.",
+  applyError: "Failed to apply countdown changes.",
+  blockChanged: "The note changed since this countdown was shown, so the edit was not applied. Try again.",
+  openMarkdownWarning: "Open a markdown file to insert the countdown.",
+  blockMissingTarget: "Countdown block needs a target date.",
+  blockInvalidTarget: "Invalid countdown target date.",
+  blockMissingProperty: "Could not read a date from the \"{property}\" property of {note}.",
+  startLabel: "Start",
+  startHint: "Optional. When set, a progress bar shows how much of the time from start to target has passed.",
+  startAfterTarget: "The start time must be before the target.",
+  progressElapsed: "{percent}% elapsed",
+  timelineEmpty: "Add milestones as lines like \"- 2026-03-01 17:00; Code freeze\".",
+  timelineInvalidLine: "Could not read milestone: {line}",
+  timelineDone: "Done",
+  timelineComplete: "All milestones reached",
+  toolbarEdit: "Edit countdown",
+  toolbarColour: "Change colour",
+  toolbarPin: "Pin to status bar",
+  toolbarUnpin: "Unpin from status bar",
+  toolbarPause: "Pause",
+  toolbarResume: "Resume",
+  toolbarAddTime: "Add {minutes} minutes",
+  toolbarSubtractTime: "Subtract {minutes} minutes",
+  pausedCaption: "Paused",
+  colorPopoverTitle: "Colour",
+  defaultLabel: "Countdown",
+  settingsDefaultLabel: "Default label",
+  settingsDefaultDuration: "Default duration (minutes)",
+  settingsDefaultColour: "Default colour",
+  settingsDefaultColourHint: "Pick a palette colour or type any colour: #36F, #3370FF80, rgb(51 112 255), hsl(220 100% 60%), or a theme colour such as accent or red.",
+  settingsPaletteHeading: "Colour palette",
+  settingsPaletteHint: "Colours offered by the colour buttons and the modal, in this order. Timeline milestones without a colour cycle through them.",
+  settingsPaletteAdd: "Add colour",
+  settingsPaletteAddButton: "Add",
+  settingsPaletteReset: "Restore default palette",
+  paletteMoveUp: "Move up",
+  paletteMoveDown: "Move down",
+  paletteRemove: "Remove",
+  colorInvalid: "Not a colour the plugin understands. Use hex, rgb(), hsl(), var(--name) or a theme colour name.",
+  settingsDefaultStyle: "Default style",
+  settingsDefaultStyleHint: "How countdown blocks look when they have no style: line.",
+  styleRibbon: "Ribbon",
+  styleMinimal: "Minimal text",
+  styleFlip: "Flip clock",
+  styleHero: "Hero",
+  settingsLanguageHeading: "Language",
+  settingsLanguage: "Interface language",
+  settingsLanguageHint: "Language of the plugin's labels, messages and dates. Command names change after Obsidian restarts.",
+  settingsLanguageAuto: "Follow Obsidian ({language})",
+  settingsTranslationFile: "Translation file",
+  settingsTranslationFileHint: "Path of a JSON file in the vault that overrides or adds strings, e.g. countdown-translations.json. It is read again whenever it is saved.",
+  settingsTranslationFileReload: "Reload translation file",
+  translationFileError: "Could not read the translation file {path}: {error}",
+  settingsWorkingTimeHeading: "Working time",
+  settingsWorkdays: "Working days",
+  settingsWorkdaysHint: "Days counted by blocks with calendar: business.",
+  settingsWorkHours: "Working hours",
+  settingsWorkHoursHint: "Start and end of the working day, e.g. 09:00 and 18:00.",
+  settingsHolidays: "Holidays and make-up workdays",
+  settingsHolidaysHint: "One date per line, e.g. 2026-10-01 or 2026-10-01 2026-10-07 for a range. Add \"work\" to mark a make-up workday.",
+  settingsHolidaysImport: "Import…",
+  settingsHolidaysClear: "Clear",
+  holidaysChooseFile: "Choose a holiday file (.ics, .json, .csv or .txt)…",
+  holidaysNoFiles: "No .ics, .json, .csv or .txt files found in the vault.",
+  holidaysImportDone: "Imported {holidays} holidays and {workdays} make-up workdays.",
+  holidaysImportEmpty: "No dates found in {file}.",
+  businessCalendarTime: "Working time · {duration} on the calendar",
+  settingsNotificationsHeading: "Notifications",
+  settingsNotificationsEnabled: "Notify when a countdown ends",
+  settingsNotificationsEnabledHint: "Show a notice when any countdown in the vault reaches its target, even if its note is closed.",
+  settingsSystemNotifications: "System notifications",
+  settingsSystemNotificationsHint: "Also show a desktop notification. Obsidian will ask for permission the first time.",
+  settingsNotificationSound: "Play a sound",
+  settingsNotificationSoundHint: "Play a short chime with each notification.",
+  settingsReminders: "Reminders before the target",
+  settingsRemindersHint: "Comma-separated lead times, e.g. 1d, 15m. Leave empty to only notify at the target.",
+  ribbonQuickTimer: "Start a quick timer",
+  commandStartTimer: "Start {duration} timer",
+  commandStartPreset: "Start quick timer…",
+  commandStartPomodoro: "Start Pomodoro",
+  commandStopTimer: "Stop quick timer",
+  quickTimerLabel: "{duration} timer",
+  quickTimerDone: "{label} finished.",
+  quickTimerStop: "Stop timer",
+  quickTimerSkip: "Skip to next phase",
+  pomodoroWork: "Focus",
+  pomodoroBreak: "Break",
+  pomodoroLongBreak: "Long break",
+  pomodoroWorkDone: "Focus session done. Time for a break.",
+  pomodoroBreakDone: "Break over. Back to focus.",
+  pomodoroLogEntry: "- 🍅 {start}–{end} Focus session ({duration})",
+  settingsQuickTimersHeading: "Quick timers",
+  settingsCustomPresets: "Custom presets",
+  settingsCustomPresetsHint: "Extra durations for the ribbon menu and the quick timer command, e.g. 10m, 1h30m. 5, 15, 25 and 50 minutes are always available.",
+  settingsQuickTimerInsert: "Insert a block when starting",
+  settingsQuickTimerInsertHint: "Also insert a countdown block for each quick timer at the cursor of the active note.",
+  settingsPomodoroWork: "Pomodoro focus (minutes)",
+  settingsPomodoroBreak: "Pomodoro break (minutes)",
+  settingsPomodoroLongBreak: "Pomodoro long break (minutes)",
+  settingsPomodoroLongBreakEvery: "Long break every",
+  settingsPomodoroLongBreakEveryHint: "Number of focus sessions before a long break.",
+  settingsPomodoroLog: "Log sessions to the daily note",
+  settingsPomodoroLogHint: "Append a line for each completed focus session to today's daily note, using the Daily notes core plugin's folder and date format.",
+  notifyReached: "“{label}” has reached its target time.",
+  notifyUpcoming: "“{label}” ends in {time}.",
+  settingsDisplayHeading: "Display",
+  settingsDefaultUnits: "Default units",
+  settingsDefaultUnitsHint: "Units shown when a block has no units: line.",
+  settingsDefaultFormat: "Default format",
+  settingsDefaultFormatHint: "How countdowns are written when a block has no format: line.",
+  settingsHideLeadingZeros: "Hide leading zero units",
+  settingsHideLeadingZerosHint: "Drop larger units while they are zero, e.g. show 05:12 instead of 00 : 00 : 05 : 12.",
+  formatDigits: "Digits",
+  formatCompact: "Compact (3d 4h)",
+  formatHuman: "Humanized (in about 3 weeks)",
+  humanFuture: "in about {duration}",
+  humanPast: "about {duration} ago",
+  humanDuration: "about {duration}",
+  humanYear: "{count} year",
+  humanYears: "{count} years",
+  humanMonth: "{count} month",
+  humanMonths: "{count} months",
+  humanWeek: "{count} week",
+  humanWeeks: "{count} weeks",
+  humanDay: "{count} day",
+  humanDays: "{count} days",
+  humanHour: "{count} hour",
+  humanHours: "{count} hours",
+  humanMinute: "{count} minute",
+  humanMinutes: "{count} minutes",
+  humanSecond: "{count} second",
+  humanSeconds: "{count} seconds",
+  shortYears: "y",
+  shortMonths: "mo",
+  shortWeeks: "w",
+  shortDays: "d",
+  shortHours: "h",
+  shortMinutes: "m",
+  shortSeconds: "s",
+  unitYears: "Years",
+  unitMonths: "Months",
+  unitWeeks: "Weeks",
+  unitDays: "Days",
+  unitHours: "Hours",
+  unitMinutes: "Minutes",
+  unitSeconds: "Seconds"
+};
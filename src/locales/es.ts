@@ -0,0 +1,217 @@
+import type { Translations } from "./translations";
+
+export const es: Translations = {
+  commandInsert: "Insertar cuenta atrás",
+  commandOpenList: "Mostrar todas las cuentas atrás",
+  commandConvertTask: "Convertir tarea en cuenta atrás",
+  commandExportVault: "Exportar todas las cuentas atrás a .ics",
+  commandExportNote: "Exportar las cuentas atrás de esta nota a .ics",
+  commandImportIcs: "Importar eventos desde un archivo .ics",
+  exportDone: "Se exportaron {count} cuentas atrás a {path}.",
+  exportEmpty: "No hay cuentas atrás para exportar.",
+  importChooseFile: "Elige un archivo .ics…",
+  importNoFiles: "No hay archivos .ics en la bóveda.",
+  importNoEvents: "No hay eventos en {file}.",
+  importHeading: "Importar eventos",
+  importHint: "Elige los eventos que se insertarán como bloques de cuenta atrás. Los eventos próximos y periódicos están preseleccionados.",
+  importRepeats: "Se repite: {rule}",
+  importRepeatUnsupported: "Su periodicidad no se puede convertir; solo se importa la primera fecha.",
+  importDone: "Se insertaron {count} cuentas atrás.",
+  settingsTaskCountdowns: "Cuentas atrás en fechas de vencimiento",
+  settingsTaskCountdownsHint: "Muestra una cuenta atrás compacta tras las tareas abiertas con una fecha 📅 o [due:: fecha].",
+  listViewTitle: "Todas las cuentas atrás",
+  listEmpty: "Todavía no hay bloques de cuenta atrás en esta bóveda.",
+  insertHeading: "Insertar cuenta atrás",
+  editHeading: "Editar cuenta atrás",
+  targetLabel: "Hora objetivo",
+  targetPreview: "Equivale a {date}",
+  timeZoneLabel: "Zona horaria",
+  timeZoneHint: "La zona en la que está escrita la hora objetivo. Los lectores también la ven en su propia zona.",
+  timeZoneDevice: "Este dispositivo ({zone})",
+  timeZoneLocal: "tu hora",
+  targetHint: "Elige la hora de fin o escribe en inglés, p. ej. «in 3h 20m», «next Friday 17:00», «tomorrow noon» o «end of month».",
+  labelLabel: "Etiqueta",
+  labelHint: "Se muestra debajo de los dígitos.",
+  colorLabel: "Color",
+  colorHint: "Color de resalte de los bloques de cuenta atrás.",
+  modeLabel: "Modo",
+  modeHint: "Contar hacia atrás hasta una hora, contar desde una hora pasada o usar un cronómetro.",
+  modeCountdown: "Cuenta atrás",
+  modeSince: "Tiempo desde",
+  modeStopwatch: "Cronómetro",
+  stopwatchStart: "Iniciar",
+  stopwatchStop: "Detener",
+  stopwatchReset: "Reiniciar",
+  repeatLabel: "Repetir",
+  repeatHint: "Cuenta siempre hasta la próxima repetición.",
+  repeatNone: "No se repite",
+  repeatDaily: "Cada día",
+  repeatWeekly: "Cada semana",
+  repeatMonthly: "Cada mes",
+  repeatCron: "Personalizado (cron)",
+  repeatWeekdaysLabel: "Los",
+  repeatMonthDayLabel: "Día del mes",
+  repeatMonthLast: "Último día",
+  repeatCronLabel: "Expresión cron",
+  repeatCronHint: "Minuto, hora, día, mes, día de la semana; p. ej. 0 9 * * 1-5.",
+  repeatInvalid: "Regla de repetición no válida.",
+  occurrenceNext: "Siguiente: {date}",
+  occurrencePrevious: "Anterior: {date}",
+  expiryLabel: "Al terminar",
+  expiryHint: "Lo que muestra el bloque cuando ha pasado la hora objetivo.",
+  expiryFreeze: "Detenerse en cero",
+  expiryElapsed: "Contar el tiempo transcurrido",
+  expiryMessage: "Mostrar un mensaje",
+  expiryMessageLabel: "Mensaje final",
+  expiryMessageHint: "Sustituye a los dígitos cuando termina la cuenta atrás.",
+  expiredCaption: "Terminado",
+  modalConfirm: "Confirmar",
+  modalCancel: "Cancelar",
+  emptyWarning: "Elige una fecha y hora objetivo.",
+  parseWarning: "No se pudo leer la fecha objetivo.",
+  applyError: "No se pudieron aplicar los cambios de la cuenta atrás.",
+  blockChanged: "La nota cambió desde que se mostró la cuenta atrás, así que no se aplicó la edición. Inténtalo de nuevo.",
+  openMarkdownWarning: "Abre un archivo Markdown para insertar la cuenta atrás.",
+  blockMissingTarget: "El bloque de cuenta atrás necesita una fecha objetivo.",
+  blockInvalidTarget: "Fecha objetivo de la cuenta atrás no válida.",
+  blockMissingProperty: "No se pudo leer una fecha de la propiedad «{property}» de {note}.",
+  startLabel: "Inicio",
+  startHint: "Opcional. Si se indica, una barra de progreso muestra cuánto ha pasado del tiempo entre el inicio y el objetivo.",
+  startAfterTarget: "La hora de inicio debe ser anterior al objetivo.",
+  progressElapsed: "{percent} % transcurrido",
+  timelineEmpty: "Añade hitos como líneas del tipo «- 2026-03-01 17:00; Congelación del código».",
+  timelineInvalidLine: "No se pudo leer el hito: {line}",
+  timelineDone: "Hecho",
+  timelineComplete: "Todos los hitos alcanzados",
+  toolbarEdit: "Editar cuenta atrás",
+  toolbarColour: "Cambiar color",
+  toolbarPin: "Fijar en la barra de estado",
+  toolbarUnpin: "Quitar de la barra de estado",
+  toolbarPause: "Pausar",
+  toolbarResume: "Reanudar",
+  toolbarAddTime: "Añadir {minutes} minutos",
+  toolbarSubtractTime: "Restar {minutes} minutos",
+  pausedCaption: "En pausa",
+  colorPopoverTitle: "Color",
+  defaultLabel: "Cuenta atrás",
+  settingsDefaultLabel: "Etiqueta predeterminada",
+  settingsDefaultDuration: "Duración predeterminada (minutos)",
+  settingsDefaultColour: "Color predeterminado",
+  settingsDefaultColourHint: "Elige un color de la paleta o escribe cualquier color: #36F, #3370FF80, rgb(51 112 255), hsl(220 100% 60%) o un color del tema como accent o red.",
+  settingsPaletteHeading: "Paleta de colores",
+  settingsPaletteHint: "Colores que ofrecen los botones de color y la ventana, en este orden. Los hitos sin color los usan por turnos.",
+  settingsPaletteAdd: "Añadir color",
+  settingsPaletteAddButton: "Añadir",
+  settingsPaletteReset: "Restaurar la paleta predeterminada",
+  paletteMoveUp: "Subir",
+  paletteMoveDown: "Bajar",
+  paletteRemove: "Quitar",
+  colorInvalid: "Color no reconocido. Usa hexadecimal, rgb(), hsl(), var(--name) o el nombre de un color del tema.",
+  settingsDefaultStyle: "Estilo predeterminado",
+  settingsDefaultStyleHint: "Aspecto de los bloques sin línea style:.",
+  styleRibbon: "Cinta",
+  styleMinimal: "Texto sencillo",
+  styleFlip: "Reloj de paletas",
+  styleHero: "Destacado",
+  settingsLanguageHeading: "Idioma",
+  settingsLanguage: "Idioma de la interfaz",
+  settingsLanguageHint: "Idioma de las etiquetas, mensajes y fechas del plugin. Los nombres de los comandos cambian al reiniciar Obsidian.",
+  settingsLanguageAuto: "Seguir a Obsidian ({language})",
+  settingsTranslationFile: "Archivo de traducción",
+  settingsTranslationFileHint: "Ruta de un archivo JSON de la bóveda que sustituye o añade textos, p. ej. countdown-translations.json. Se vuelve a leer cada vez que se guarda.",
+  settingsTranslationFileReload: "Recargar el archivo de traducción",
+  translationFileError: "No se pudo leer el archivo de traducción {path}: {error}",
+  settingsWorkingTimeHeading: "Horario laboral",
+  settingsWorkdays: "Días laborables",
+  settingsWorkdaysHint: "Días que cuentan los bloques con calendar: business.",
+  settingsWorkHours: "Horas de trabajo",
+  settingsWorkHoursHint: "Inicio y fin de la jornada, p. ej. 09:00 y 18:00.",
+  settingsHolidays: "Festivos y días laborables de recuperación",
+  settingsHolidaysHint: "Una fecha por línea, p. ej. 2026-10-01 o 2026-10-01 2026-10-07 para un periodo. Añade \"work\" para un día laborable.",
+  settingsHolidaysImport: "Importar…",
+  settingsHolidaysClear: "Borrar",
+  holidaysChooseFile: "Elige un archivo de festivos (.ics, .json, .csv o .txt)…",
+  holidaysNoFiles: "No hay archivos .ics, .json, .csv ni .txt en la bóveda.",
+  holidaysImportDone: "Importados {holidays} festivos y {workdays} días laborables.",
+  holidaysImportEmpty: "No se encontraron fechas en {file}.",
+  businessCalendarTime: "Horario laboral · {duration} en el calendario",
+  settingsNotificationsHeading: "Notificaciones",
+  settingsNotificationsEnabled: "Avisar cuando termine una cuenta atrás",
+  settingsNotificationsEnabledHint: "Muestra un aviso cuando cualquier cuenta atrás de la bóveda llega a su objetivo, aunque su nota esté cerrada.",
+  settingsSystemNotifications: "Notificaciones del sistema",
+  settingsSystemNotificationsHint: "Muestra también una notificación de escritorio. Obsidian pedirá permiso la primera vez.",
+  settingsNotificationSound: "Reproducir un sonido",
+  settingsNotificationSoundHint: "Reproduce un breve aviso sonoro con cada notificación.",
+  settingsReminders: "Recordatorios antes del objetivo",
+  settingsRemindersHint: "Antelaciones separadas por comas, p. ej. 1d, 15m. Déjalo vacío para avisar solo al llegar al objetivo.",
+  ribbonQuickTimer: "Iniciar un temporizador rápido",
+  commandStartTimer: "Iniciar temporizador de {duration}",
+  commandStartPreset: "Iniciar temporizador rápido…",
+  commandStartPomodoro: "Iniciar Pomodoro",
+  commandStopTimer: "Detener temporizador rápido",
+  quickTimerLabel: "Temporizador de {duration}",
+  quickTimerDone: "{label} ha terminado.",
+  quickTimerStop: "Detener temporizador",
+  quickTimerSkip: "Saltar a la siguiente fase",
+  pomodoroWork: "Concentración",
+  pomodoroBreak: "Descanso",
+  pomodoroLongBreak: "Descanso largo",
+  pomodoroWorkDone: "Sesión de concentración terminada. Hora de descansar.",
+  pomodoroBreakDone: "Se acabó el descanso. De vuelta a la concentración.",
+  pomodoroLogEntry: "- 🍅 {start}–{end} Sesión de concentración ({duration})",
+  settingsQuickTimersHeading: "Temporizadores rápidos",
+  settingsCustomPresets: "Duraciones personalizadas",
+  settingsCustomPresetsHint: "Duraciones adicionales para el menú y el comando de temporizador rápido, p. ej. 10m, 1h30m. 5, 15, 25 y 50 minutos siempre están disponibles.",
+  settingsQuickTimerInsert: "Insertar un bloque al iniciar",
+  settingsQuickTimerInsertHint: "Inserta también un bloque de cuenta atrás para cada temporizador rápido en el cursor de la nota activa.",
+  settingsPomodoroWork: "Concentración Pomodoro (minutos)",
+  settingsPomodoroBreak: "Descanso Pomodoro (minutos)",
+  settingsPomodoroLongBreak: "Descanso largo Pomodoro (minutos)",
+  settingsPomodoroLongBreakEvery: "Descanso largo cada",
+  settingsPomodoroLongBreakEveryHint: "Número de sesiones de concentración antes de un descanso largo.",
+  settingsPomodoroLog: "Registrar sesiones en la nota diaria",
+  settingsPomodoroLogHint: "Añade una línea a la nota diaria de hoy por cada sesión completada, con la carpeta y el formato de fecha del plugin principal Notas diarias.",
+  notifyReached: "«{label}» ha llegado a su hora objetivo.",
+  notifyUpcoming: "«{label}» termina en {time}.",
+  settingsDisplayHeading: "Visualización",
+  settingsDefaultUnits: "Unidades predeterminadas",
+  settingsDefaultUnitsHint: "Unidades que muestran los bloques sin línea units:.",
+  settingsDefaultFormat: "Formato predeterminado",
+  settingsDefaultFormatHint: "Cómo se muestran los bloques sin línea format:.",
+  settingsHideLeadingZeros: "Ocultar unidades iniciales a cero",
+  settingsHideLeadingZerosHint: "Oculta las unidades mayores mientras valgan cero, p. ej. 05:12 en lugar de 00 : 00 : 05 : 12.",
+  formatDigits: "Dígitos",
+  formatCompact: "Compacto (3d 4h)",
+  formatHuman: "Natural (dentro de unas 3 semanas)",
+  humanFuture: "dentro de unos {duration}",
+  humanPast: "hace unos {duration}",
+  humanDuration: "unos {duration}",
+  humanYear: "{count} año",
+  humanYears: "{count} años",
+  humanMonth: "{count} mes",
+  humanMonths: "{count} meses",
+  humanWeek: "{count} semana",
+  humanWeeks: "{count} semanas",
+  humanDay: "{count} día",
+  humanDays: "{count} días",
+  humanHour: "{count} hora",
+  humanHours: "{count} horas",
+  humanMinute: "{count} minuto",
+  humanMinutes: "{count} minutos",
+  humanSecond: "{count} segundo",
+  humanSeconds: "{count} segundos",
+  shortYears: "a",
+  shortMonths: "m",
+  shortWeeks: "sem",
+  shortDays: "d",
+  shortHours: "h",
+  shortMinutes: "min",
+  shortSeconds: "s",
+  unitYears: "Años",
+  unitMonths: "Meses",
+  unitWeeks: "Semanas",
+  unitDays: "Días",
+  unitHours: "Horas",
+  unitMinutes: "Minutos",
+  unitSeconds: "Segundos"
+};
@@ -0,0 +1,217 @@
+import type { Translations } from "./translations";
+
+export const fr: Translations = {
+  commandInsert: "Insérer un compte à rebours",
+  commandOpenList: "Afficher tous les comptes à rebours",
+  commandConvertTask: "Convertir la tâche en compte à rebours",
+  commandExportVault: "Exporter tous les comptes à rebours en .ics",
+  commandExportNote: "Exporter les comptes à rebours de cette note en .ics",
+  commandImportIcs: "Importer des événements depuis un fichier .ics",
+  exportDone: "{count} comptes à rebours exportés vers {path}.",
+  exportEmpty: "Aucun compte à rebours à exporter.",
+  importChooseFile: "Choisir un fichier .ics…",
+  importNoFiles: "Aucun fichier .ics dans le coffre.",
+  importNoEvents: "Aucun événement dans {file}.",
+  importHeading: "Importer des événements",
+  importHint: "Choisissez les événements à insérer comme blocs de compte à rebours. Les événements à venir et récurrents sont présélectionnés.",
+  importRepeats: "Se répète : {rule}",
+  importRepeatUnsupported: "Sa récurrence ne peut pas être convertie ; seule la première date est importée.",
+  importDone: "{count} comptes à rebours insérés.",
+  settingsTaskCountdowns: "Comptes à rebours sur les échéances",
+  settingsTaskCountdownsHint: "Affiche un compte à rebours compact après les tâches ouvertes portant une date 📅 ou [due:: date].",
+  listViewTitle: "Tous les comptes à rebours",
+  listEmpty: "Aucun bloc de compte à rebours dans ce coffre pour l’instant.",
+  insertHeading: "Insérer un compte à rebours",
+  editHeading: "Modifier le compte à rebours",
+  targetLabel: "Heure cible",
+  targetPreview: "Correspond à {date}",
+  timeZoneLabel: "Fuseau horaire",
+  timeZoneHint: "Le fuseau dans lequel l’heure cible est écrite. Les lecteurs la voient aussi dans leur propre fuseau.",
+  timeZoneDevice: "Cet appareil ({zone})",
+  timeZoneLocal: "votre heure",
+  targetHint: "Choisissez l’heure de fin ou tapez en anglais, par ex. « in 3h 20m », « next Friday 17:00 », « tomorrow noon » ou « end of month ».",
+  labelLabel: "Libellé",
+  labelHint: "Affiché sous les chiffres.",
+  colorLabel: "Couleur",
+  colorHint: "Couleur d’accent des blocs de compte à rebours.",
+  modeLabel: "Mode",
+  modeHint: "Décompter jusqu’à une heure, compter depuis une heure passée ou lancer un chronomètre.",
+  modeCountdown: "Compte à rebours",
+  modeSince: "Temps écoulé depuis",
+  modeStopwatch: "Chronomètre",
+  stopwatchStart: "Démarrer",
+  stopwatchStop: "Arrêter",
+  stopwatchReset: "Réinitialiser",
+  repeatLabel: "Répétition",
+  repeatHint: "Décompte toujours jusqu’à la prochaine occurrence.",
+  repeatNone: "Ne se répète pas",
+  repeatDaily: "Tous les jours",
+  repeatWeekly: "Toutes les semaines",
+  repeatMonthly: "Tous les mois",
+  repeatCron: "Personnalisé (cron)",
+  repeatWeekdaysLabel: "Le",
+  repeatMonthDayLabel: "Jour du mois",
+  repeatMonthLast: "Dernier jour",
+  repeatCronLabel: "Expression cron",
+  repeatCronHint: "Minute, heure, jour, mois, jour de la semaine — par ex. 0 9 * * 1-5.",
+  repeatInvalid: "Règle de répétition non valide.",
+  occurrenceNext: "Prochaine : {date}",
+  occurrencePrevious: "Précédente : {date}",
+  expiryLabel: "À la fin",
+  expiryHint: "Ce qu’affiche le bloc une fois l’heure cible passée.",
+  expiryFreeze: "S’arrêter à zéro",
+  expiryElapsed: "Compter le temps écoulé",
+  expiryMessage: "Afficher un message",
+  expiryMessageLabel: "Message de fin",
+  expiryMessageHint: "Remplace les chiffres à la fin du compte à rebours.",
+  expiredCaption: "Terminé",
+  modalConfirm: "Valider",
+  modalCancel: "Annuler",
+  emptyWarning: "Veuillez choisir une date et une heure cibles.",
+  parseWarning: "Impossible de lire la date cible.",
+  applyError: "Impossible d’appliquer les modifications du compte à rebours.",
+  blockChanged: "La note a changé depuis l’affichage du compte à rebours ; la modification n’a pas été appliquée. Réessayez.",
+  openMarkdownWarning: "Ouvrez un fichier Markdown pour insérer le compte à rebours.",
+  blockMissingTarget: "Le bloc de compte à rebours doit avoir une date cible.",
+  blockInvalidTarget: "Date cible du compte à rebours non valide.",
+  blockMissingProperty: "Impossible de lire une date dans la propriété « {property} » de {note}.",
+  startLabel: "Début",
+  startHint: "Facultatif. S’il est défini, une barre de progression montre la part du temps écoulée entre le début et la cible.",
+  startAfterTarget: "L’heure de début doit précéder la cible.",
+  progressElapsed: "{percent} % écoulé",
+  timelineEmpty: "Ajoutez des jalons sous forme de lignes comme « - 2026-03-01 17:00; Gel du code ».",
+  timelineInvalidLine: "Jalon illisible : {line}",
+  timelineDone: "Terminé",
+  timelineComplete: "Tous les jalons sont atteints",
+  toolbarEdit: "Modifier le compte à rebours",
+  toolbarColour: "Changer la couleur",
+  toolbarPin: "Épingler dans la barre d’état",
+  toolbarUnpin: "Détacher de la barre d’état",
+  toolbarPause: "Pause",
+  toolbarResume: "Reprendre",
+  toolbarAddTime: "Ajouter {minutes} minutes",
+  toolbarSubtractTime: "Retirer {minutes} minutes",
+  pausedCaption: "En pause",
+  colorPopoverTitle: "Couleur",
+  defaultLabel: "Compte à rebours",
+  settingsDefaultLabel: "Libellé par défaut",
+  settingsDefaultDuration: "Durée par défaut (minutes)",
+  settingsDefaultColour: "Couleur par défaut",
+  settingsDefaultColourHint: "Choisissez une couleur de la palette ou saisissez n’importe quelle couleur : #36F, #3370FF80, rgb(51 112 255), hsl(220 100% 60%) ou une couleur du thème comme accent ou red.",
+  settingsPaletteHeading: "Palette de couleurs",
+  settingsPaletteHint: "Couleurs proposées par les boutons de couleur et la fenêtre, dans cet ordre. Les jalons sans couleur les utilisent à tour de rôle.",
+  settingsPaletteAdd: "Ajouter une couleur",
+  settingsPaletteAddButton: "Ajouter",
+  settingsPaletteReset: "Rétablir la palette par défaut",
+  paletteMoveUp: "Monter",
+  paletteMoveDown: "Descendre",
+  paletteRemove: "Supprimer",
+  colorInvalid: "Couleur non reconnue. Utilisez l’hexadécimal, rgb(), hsl(), var(--name) ou le nom d’une couleur du thème.",
+  settingsDefaultStyle: "Style par défaut",
+  settingsDefaultStyleHint: "Apparence des blocs sans ligne style:.",
+  styleRibbon: "Ruban",
+  styleMinimal: "Texte épuré",
+  styleFlip: "Horloge à volets",
+  styleHero: "Grand format",
+  settingsLanguageHeading: "Langue",
+  settingsLanguage: "Langue de l’interface",
+  settingsLanguageHint: "Langue des libellés, messages et dates du plugin. Les noms des commandes changent après un redémarrage d’Obsidian.",
+  settingsLanguageAuto: "Suivre Obsidian ({language})",
+  settingsTranslationFile: "Fichier de traduction",
+  settingsTranslationFileHint: "Chemin d’un fichier JSON du coffre qui remplace ou ajoute des textes, par ex. countdown-translations.json. Il est relu à chaque enregistrement.",
+  settingsTranslationFileReload: "Recharger le fichier de traduction",
+  translationFileError: "Impossible de lire le fichier de traduction {path} : {error}",
+  settingsWorkingTimeHeading: "Temps de travail",
+  settingsWorkdays: "Jours ouvrés",
+  settingsWorkdaysHint: "Jours comptés par les blocs avec calendar: business.",
+  settingsWorkHours: "Heures de travail",
+  settingsWorkHoursHint: "Début et fin de la journée de travail, par ex. 09:00 et 18:00.",
+  settingsHolidays: "Jours fériés et jours travaillés de récupération",
+  settingsHolidaysHint: "Une date par ligne, par ex. 2026-10-01 ou 2026-10-01 2026-10-07 pour une période. Ajoutez « work » pour un jour travaillé.",
+  settingsHolidaysImport: "Importer…",
+  settingsHolidaysClear: "Effacer",
+  holidaysChooseFile: "Choisir un fichier de jours fériés (.ics, .json, .csv ou .txt)…",
+  holidaysNoFiles: "Aucun fichier .ics, .json, .csv ou .txt dans le coffre.",
+  holidaysImportDone: "{holidays} jours fériés et {workdays} jours travaillés importés.",
+  holidaysImportEmpty: "Aucune date trouvée dans {file}.",
+  businessCalendarTime: "Temps de travail · {duration} au calendrier",
+  settingsNotificationsHeading: "Notifications",
+  settingsNotificationsEnabled: "Prévenir à la fin d’un compte à rebours",
+  settingsNotificationsEnabledHint: "Affiche un avis dès qu’un compte à rebours du coffre atteint sa cible, même si sa note est fermée.",
+  settingsSystemNotifications: "Notifications système",
+  settingsSystemNotificationsHint: "Affiche aussi une notification de bureau. Obsidian demandera l’autorisation la première fois.",
+  settingsNotificationSound: "Jouer un son",
+  settingsNotificationSoundHint: "Joue un court carillon à chaque notification.",
+  settingsReminders: "Rappels avant la cible",
+  settingsRemindersHint: "Délais séparés par des virgules, par ex. 1d, 15m. Laissez vide pour ne prévenir qu’à la cible.",
+  ribbonQuickTimer: "Lancer un minuteur rapide",
+  commandStartTimer: "Lancer un minuteur de {duration}",
+  commandStartPreset: "Lancer un minuteur rapide…",
+  commandStartPomodoro: "Lancer un Pomodoro",
+  commandStopTimer: "Arrêter le minuteur rapide",
+  quickTimerLabel: "Minuteur de {duration}",
+  quickTimerDone: "{label} terminé.",
+  quickTimerStop: "Arrêter le minuteur",
+  quickTimerSkip: "Passer à la phase suivante",
+  pomodoroWork: "Concentration",
+  pomodoroBreak: "Pause",
+  pomodoroLongBreak: "Longue pause",
+  pomodoroWorkDone: "Séance de concentration terminée. C’est l’heure de la pause.",
+  pomodoroBreakDone: "Pause terminée. Retour à la concentration.",
+  pomodoroLogEntry: "- 🍅 {start}–{end} Séance de concentration ({duration})",
+  settingsQuickTimersHeading: "Minuteurs rapides",
+  settingsCustomPresets: "Préréglages personnalisés",
+  settingsCustomPresetsHint: "Durées supplémentaires pour le menu et la commande de minuteur rapide, par ex. 10m, 1h30m. 5, 15, 25 et 50 minutes sont toujours disponibles.",
+  settingsQuickTimerInsert: "Insérer un bloc au démarrage",
+  settingsQuickTimerInsertHint: "Insère aussi un bloc de compte à rebours pour chaque minuteur rapide au curseur de la note active.",
+  settingsPomodoroWork: "Concentration Pomodoro (minutes)",
+  settingsPomodoroBreak: "Pause Pomodoro (minutes)",
+  settingsPomodoroLongBreak: "Longue pause Pomodoro (minutes)",
+  settingsPomodoroLongBreakEvery: "Longue pause toutes les",
+  settingsPomodoroLongBreakEveryHint: "Nombre de séances de concentration avant une longue pause.",
+  settingsPomodoroLog: "Consigner les séances dans la note quotidienne",
+  settingsPomodoroLogHint: "Ajoute une ligne à la note quotidienne du jour pour chaque séance terminée, avec le dossier et le format de date du plugin principal Notes quotidiennes.",
+  notifyReached: "« {label} » a atteint son heure cible.",
+  notifyUpcoming: "« {label} » se termine dans {time}.",
+  settingsDisplayHeading: "Affichage",
+  settingsDefaultUnits: "Unités par défaut",
+  settingsDefaultUnitsHint: "Unités affichées par les blocs sans ligne units:.",
+  settingsDefaultFormat: "Format par défaut",
+  settingsDefaultFormatHint: "Présentation des blocs sans ligne format:.",
+  settingsHideLeadingZeros: "Masquer les unités nulles en tête",
+  settingsHideLeadingZerosHint: "Masque les grandes unités tant qu’elles valent zéro, par ex. 05:12 au lieu de 00 : 00 : 05 : 12.",
+  formatDigits: "Chiffres",
+  formatCompact: "Compact (3j 4h)",
+  formatHuman: "En toutes lettres (dans environ 3 semaines)",
+  humanFuture: "dans environ {duration}",
+  humanPast: "il y a environ {duration}",
+  humanDuration: "environ {duration}",
+  humanYear: "{count} an",
+  humanYears: "{count} ans",
+  humanMonth: "{count} mois",
+  humanMonths: "{count} mois",
+  humanWeek: "{count} semaine",
+  humanWeeks: "{count} semaines",
+  humanDay: "{count} jour",
+  humanDays: "{count} jours",
+  humanHour: "{count} heure",
+  humanHours: "{count} heures",
+  humanMinute: "{count} minute",
+  humanMinutes: "{count} minutes",
+  humanSecond: "{count} seconde",
+  humanSeconds: "{count} secondes",
+  shortYears: "a",
+  shortMonths: "mois",
+  shortWeeks: "sem",
+  shortDays: "j",
+  shortHours: "h",
+  shortMinutes: "min",
+  shortSeconds: "s",
+  unitYears: "Années",
+  unitMonths: "Mois",
+  unitWeeks: "Semaines",
+  unitDays: "Jours",
+  unitHours: "Heures",
+  unitMinutes: "Minutes",
+  unitSeconds: "Secondes"
+};
@@ -0,0 +1,77 @@
+import { de } from "./de";
+import { en } from "./en";
+import { es } from "./es";
+import { fr } from "./fr";
+import { ja } from "./ja";
+import { ko } from "./ko";
+import type { Translations } from "./translations";
+import { zh } from "./zh";
+import { zhTW } from "./zh-TW";
+
+export type { Translations } from "./translations";
+
+export interface LocaleInfo {
+  name: string;
+  strings: Translations;
+}
+
+/** Per-locale overrides keyed by lowercase locale code; "*" applies to every locale. */
+export type TranslationOverrides = Record<string, Partial<Translations>>;
+
+/** Built-in locales keyed by lowercase BCP 47 tag. English is the final fallback for every chain. */
+export const LOCALES: Record<string, LocaleInfo> = {
+  en: { name: "English", strings: en },
+  zh: { name: "简体中文", strings: zh },
+  "zh-tw": { name: "繁體中文", strings: zhTW },
+  ja: { name: "日本語", strings: ja },
+  ko: { name: "한국어", strings: ko },
+  de: { name: "Deutsch", strings: de },
+  fr: { name: "Français", strings: fr },
+  es: { name: "Español", strings: es }
+};
+
+const LOCALE_ALIASES: Record<string, string> = {
+  "zh-cn": "zh",
+  "zh-sg": "zh",
+  "zh-hans": "zh",
+  "zh-hk": "zh-tw",
+  "zh-mo": "zh-tw",
+  "zh-hant": "zh-tw"
+};
+
+/**
+ * Returns the lookup order for a locale, most specific first: "zh-HK" gives
+ * ["zh-hk", "zh-tw", "zh", "en"]. Unknown tags still end in English.
+ */
+export function getLocaleChain(locale: string): string[] {
+  const chain: string[] = [];
+  let code: string | null = locale.trim().toLowerCase().replace(/_/g, "-");
+  while (code) {
+    if (!chain.includes(code)) {
+      chain.push(code);
+    }
+    if (LOCALE_ALIASES[code]) {
+      code = LOCALE_ALIASES[code];
+    } else {
+      const separator = code.lastIndexOf("-");
+      code = separator > 0 ? code.slice(0, separator) : null;
+    }
+  }
+  if (!chain.includes("en")) {
+    chain.push("en");
+  }
+  return chain;
+}
+
+/**
+ * Builds the full string table for a locale. Each step of the fallback chain
+ * (built-in strings, then that locale's overrides) is layered over English
+ * from least to most specific, and the "*" overrides win over everything.
+ */
+export function buildTranslations(locale: string, overrides: TranslationOverrides = {}): Translations {
+  const strings: Translations = { ...en };
+  for (const code of getLocaleChain(locale).reverse()) {
+    Object.assign(strings, LOCALES[code]?.strings, overrides[code]);
+  }
+  return Object.assign(strings, overrides["*"]);
+}
@@ -0,0 +1,217 @@
+import type { Translations } from "./translations";
+
+export const ja: Translations = {
+  commandInsert: "カウントダウンを挿入",
+  commandOpenList: "すべてのカウントダウンを表示",
+  commandConvertTask: "タスクをカウントダウンに変換",
+  commandExportVault: "すべてのカウントダウンを .ics に書き出す",
+  commandExportNote: "このノートのカウントダウンを .ics に書き出す",
+  commandImportIcs: ".ics ファイルから予定を読み込む",
+  exportDone: "{count} 件のカウントダウンを {path} に書き出しました。",
+  exportEmpty: "書き出すカウントダウンがありません。",
+  importChooseFile: ".ics ファイルを選択…",
+  importNoFiles: "保管庫に .ics ファイルが見つかりません。",
+  importNoEvents: "{file} に予定がありません。",
+  importHeading: "予定を読み込む",
+  importHint: "カウントダウンブロックとして挿入する予定を選んでください。今後の予定と繰り返しの予定は選択済みです。",
+  importRepeats: "繰り返し: {rule}",
+  importRepeatUnsupported: "繰り返しルールを変換できないため、最初の日付のみ読み込みます。",
+  importDone: "{count} 件のカウントダウンを挿入しました。",
+  settingsTaskCountdowns: "タスクの期日にカウントダウン",
+  settingsTaskCountdownsHint: "📅 日付または [due:: 日付] が付いた未完了タスクの後ろに小さなカウントダウンを表示します。",
+  listViewTitle: "すべてのカウントダウン",
+  listEmpty: "この保管庫にはまだカウントダウンブロックがありません。",
+  insertHeading: "カウントダウンを挿入",
+  editHeading: "カウントダウンを編集",
+  targetLabel: "終了時刻",
+  targetPreview: "{date} として解釈",
+  timeZoneLabel: "タイムゾーン",
+  timeZoneHint: "終了時刻を記述するタイムゾーン。閲覧者には自分のタイムゾーンでの時刻も表示されます。",
+  timeZoneDevice: "このデバイス（{zone}）",
+  timeZoneLocal: "あなたの時刻",
+  targetHint: "終了時刻を選ぶか、“in 3h 20m”“next Friday 17:00”“tomorrow noon”“end of month” のように英語で入力します。",
+  labelLabel: "ラベル",
+  labelHint: "数字の下に表示されます。",
+  colorLabel: "色",
+  colorHint: "カウントダウンブロックの強調色。",
+  modeLabel: "モード",
+  modeHint: "指定時刻までカウントダウン、過去の時刻からカウントアップ、またはストップウォッチとして使います。",
+  modeCountdown: "カウントダウン",
+  modeSince: "経過時間",
+  modeStopwatch: "ストップウォッチ",
+  stopwatchStart: "開始",
+  stopwatchStop: "停止",
+  stopwatchReset: "リセット",
+  repeatLabel: "繰り返し",
+  repeatHint: "常に次の発生時刻までカウントダウンします。",
+  repeatNone: "繰り返さない",
+  repeatDaily: "毎日",
+  repeatWeekly: "毎週",
+  repeatMonthly: "毎月",
+  repeatCron: "カスタム（cron）",
+  repeatWeekdaysLabel: "曜日",
+  repeatMonthDayLabel: "日付",
+  repeatMonthLast: "月末",
+  repeatCronLabel: "cron 式",
+  repeatCronHint: "分 時 日 月 曜日 — 例: 0 9 * * 1-5",
+  repeatInvalid: "繰り返しルールが無効です。",
+  occurrenceNext: "次回: {date}",
+  occurrencePrevious: "前回: {date}",
+  expiryLabel: "終了後",
+  expiryHint: "終了時刻を過ぎた後のブロックの表示。",
+  expiryFreeze: "ゼロで停止",
+  expiryElapsed: "経過時間を表示",
+  expiryMessage: "メッセージを表示",
+  expiryMessageLabel: "終了メッセージ",
+  expiryMessageHint: "カウントダウン終了時に数字の代わりに表示されます。",
+  expiredCaption: "終了",
+  modalConfirm: "確定",
+  modalCancel: "キャンセル",
+  emptyWarning: "終了日時を選択してください。",
+  parseWarning: "終了日時を解釈できません。",
+  applyError: "カウントダウンの変更を適用できませんでした。",
+  blockChanged: "カウントダウンの表示後にノートが変更されたため、編集は適用されませんでした。もう一度お試しください。",
+  openMarkdownWarning: "カウントダウンを挿入するには Markdown ファイルを開いてください。",
+  blockMissingTarget: "カウントダウンブロックに終了日時がありません。",
+  blockInvalidTarget: "カウントダウンの終了日時が無効です。",
+  blockMissingProperty: "{note} のプロパティ「{property}」から日付を読み取れませんでした。",
+  startLabel: "開始",
+  startHint: "任意。設定すると、開始から終了までの経過割合をプログレスバーで表示します。",
+  startAfterTarget: "開始時刻は終了時刻より前にしてください。",
+  progressElapsed: "{percent}% 経過",
+  timelineEmpty: "「- 2026-03-01 17:00; コードフリーズ」のような行でマイルストーンを追加してください。",
+  timelineInvalidLine: "マイルストーンを読み取れません: {line}",
+  timelineDone: "完了",
+  timelineComplete: "すべてのマイルストーンに到達しました",
+  toolbarEdit: "カウントダウンを編集",
+  toolbarColour: "色を変更",
+  toolbarPin: "ステータスバーに固定",
+  toolbarUnpin: "ステータスバーから固定解除",
+  toolbarPause: "一時停止",
+  toolbarResume: "再開",
+  toolbarAddTime: "{minutes} 分追加",
+  toolbarSubtractTime: "{minutes} 分減らす",
+  pausedCaption: "一時停止中",
+  colorPopoverTitle: "色",
+  defaultLabel: "カウントダウン",
+  settingsDefaultLabel: "既定のラベル",
+  settingsDefaultDuration: "既定の長さ（分）",
+  settingsDefaultColour: "既定の色",
+  settingsDefaultColourHint: "パレットの色を選ぶか、任意の色を入力します: #36F、#3370FF80、rgb(51 112 255)、hsl(220 100% 60%)、または accent や red などのテーマカラー。",
+  settingsPaletteHeading: "カラーパレット",
+  settingsPaletteHint: "色ボタンとダイアログに表示される色（この順番）。色の指定がないタイムラインのマイルストーンはこれらを順に使います。",
+  settingsPaletteAdd: "色を追加",
+  settingsPaletteAddButton: "追加",
+  settingsPaletteReset: "既定のパレットに戻す",
+  paletteMoveUp: "上へ",
+  paletteMoveDown: "下へ",
+  paletteRemove: "削除",
+  colorInvalid: "認識できない色です。16 進数、rgb()、hsl()、var(--name)、またはテーマカラー名を使ってください。",
+  settingsDefaultStyle: "既定のスタイル",
+  settingsDefaultStyleHint: "style: 行がないブロックの見た目。",
+  styleRibbon: "リボン",
+  styleMinimal: "シンプルなテキスト",
+  styleFlip: "フリップ時計",
+  styleHero: "ヒーロー",
+  settingsLanguageHeading: "言語",
+  settingsLanguage: "表示言語",
+  settingsLanguageHint: "プラグインのラベル、メッセージ、日付の言語。コマンド名は Obsidian の再起動後に変わります。",
+  settingsLanguageAuto: "Obsidian に合わせる（{language}）",
+  settingsTranslationFile: "翻訳ファイル",
+  settingsTranslationFileHint: "文字列を上書き・追加する保管庫内の JSON ファイルのパス（例: countdown-translations.json）。保存するたびに読み直されます。",
+  settingsTranslationFileReload: "翻訳ファイルを再読み込み",
+  translationFileError: "翻訳ファイル {path} を読み込めませんでした: {error}",
+  settingsWorkingTimeHeading: "勤務時間",
+  settingsWorkdays: "勤務日",
+  settingsWorkdaysHint: "calendar: business のブロックはこの曜日だけを数えます。",
+  settingsWorkHours: "勤務時間帯",
+  settingsWorkHoursHint: "勤務日の開始と終了、例: 09:00 と 18:00。",
+  settingsHolidays: "祝日と振替出勤日",
+  settingsHolidaysHint: "1 行に 1 日付、例: 2026-10-01。期間は 2026-10-01 2026-10-07 のように書きます。\"work\" を付けると出勤日になります。",
+  settingsHolidaysImport: "インポート…",
+  settingsHolidaysClear: "クリア",
+  holidaysChooseFile: "祝日ファイルを選択（.ics、.json、.csv、.txt）…",
+  holidaysNoFiles: "保管庫に .ics、.json、.csv、.txt ファイルがありません。",
+  holidaysImportDone: "祝日 {holidays} 日と出勤日 {workdays} 日をインポートしました。",
+  holidaysImportEmpty: "{file} に日付が見つかりません。",
+  businessCalendarTime: "勤務時間 · カレンダー上は残り {duration}",
+  settingsNotificationsHeading: "通知",
+  settingsNotificationsEnabled: "カウントダウン終了時に通知",
+  settingsNotificationsEnabledHint: "保管庫内のいずれかのカウントダウンが終了したら、ノートを開いていなくても通知を表示します。",
+  settingsSystemNotifications: "システム通知",
+  settingsSystemNotificationsHint: "デスクトップ通知も表示します。初回は Obsidian が許可を求めます。",
+  settingsNotificationSound: "サウンドを鳴らす",
+  settingsNotificationSoundHint: "通知のたびに短いチャイムを鳴らします。",
+  settingsReminders: "事前リマインダー",
+  settingsRemindersHint: "カンマ区切りの事前時間（例: 1d, 15m）。空欄にすると終了時のみ通知します。",
+  ribbonQuickTimer: "クイックタイマーを開始",
+  commandStartTimer: "{duration} のタイマーを開始",
+  commandStartPreset: "クイックタイマーを開始…",
+  commandStartPomodoro: "ポモドーロを開始",
+  commandStopTimer: "クイックタイマーを停止",
+  quickTimerLabel: "{duration} タイマー",
+  quickTimerDone: "{label}が終了しました。",
+  quickTimerStop: "タイマーを停止",
+  quickTimerSkip: "次のフェーズへ",
+  pomodoroWork: "集中",
+  pomodoroBreak: "休憩",
+  pomodoroLongBreak: "長い休憩",
+  pomodoroWorkDone: "集中セッション終了。休憩しましょう。",
+  pomodoroBreakDone: "休憩終了。集中に戻りましょう。",
+  pomodoroLogEntry: "- 🍅 {start}–{end} 集中セッション（{duration}）",
+  settingsQuickTimersHeading: "クイックタイマー",
+  settingsCustomPresets: "カスタムプリセット",
+  settingsCustomPresetsHint: "リボンメニューとクイックタイマーコマンドに追加する長さ（例: 10m, 1h30m）。5、15、25、50 分は常に使えます。",
+  settingsQuickTimerInsert: "開始時にブロックを挿入",
+  settingsQuickTimerInsertHint: "クイックタイマーを開始するたびに、アクティブなノートのカーソル位置にカウントダウンブロックも挿入します。",
+  settingsPomodoroWork: "ポモドーロの集中（分）",
+  settingsPomodoroBreak: "ポモドーロの休憩（分）",
+  settingsPomodoroLongBreak: "ポモドーロの長い休憩（分）",
+  settingsPomodoroLongBreakEvery: "長い休憩の間隔",
+  settingsPomodoroLongBreakEveryHint: "長い休憩までの集中セッション数。",
+  settingsPomodoroLog: "デイリーノートに記録",
+  settingsPomodoroLogHint: "集中セッションが終わるたびに、今日のデイリーノートに 1 行追加します（デイリーノートコアプラグインのフォルダと日付形式を使用）。",
+  notifyReached: "「{label}」が終了時刻になりました。",
+  notifyUpcoming: "「{label}」はあと {time} で終了します。",
+  settingsDisplayHeading: "表示",
+  settingsDefaultUnits: "既定の単位",
+  settingsDefaultUnitsHint: "units: 行がないブロックで表示する単位。",
+  settingsDefaultFormat: "既定の形式",
+  settingsDefaultFormatHint: "format: 行がないブロックの表示形式。",
+  settingsHideLeadingZeros: "先頭のゼロの単位を隠す",
+  settingsHideLeadingZerosHint: "大きい単位がゼロの間は表示しません。例: 00 : 00 : 05 : 12 ではなく 05:12。",
+  formatDigits: "数字",
+  formatCompact: "コンパクト（3日 4時間）",
+  formatHuman: "自然な表現（約 3 週間後）",
+  humanFuture: "約 {duration}後",
+  humanPast: "約 {duration}前",
+  humanDuration: "約 {duration}",
+  humanYear: "{count} 年",
+  humanYears: "{count} 年",
+  humanMonth: "{count} か月",
+  humanMonths: "{count} か月",
+  humanWeek: "{count} 週間",
+  humanWeeks: "{count} 週間",
+  humanDay: "{count} 日",
+  humanDays: "{count} 日",
+  humanHour: "{count} 時間",
+  humanHours: "{count} 時間",
+  humanMinute: "{count} 分",
+  humanMinutes: "{count} 分",
+  humanSecond: "{count} 秒",
+  humanSeconds: "{count} 秒",
+  shortYears: "年",
+  shortMonths: "か月",
+  shortWeeks: "週",
+  shortDays: "日",
+  shortHours: "時間",
+  shortMinutes: "分",
+  shortSeconds: "秒",
+  unitYears: "年",
+  unitMonths: "月",
+  unitWeeks: "週",
+  unitDays: "日",
+  unitHours: "時",
+  unitMinutes: "分",
+  unitSeconds: "秒"
+};
@@ -0,0 +1,217 @@
+import type { Translations } from "./translations";
+
+export const ko: Translations = {
+  commandInsert: "카운트다운 삽입",
+  commandOpenList: "모든 카운트다운 보기",
+  commandConvertTask: "할 일을 카운트다운으로 변환",
+  commandExportVault: "모든 카운트다운을 .ics로 내보내기",
+  commandExportNote: "이 노트의 카운트다운을 .ics로 내보내기",
+  commandImportIcs: ".ics 파일에서 일정 가져오기",
+  exportDone: "카운트다운 {count}개를 {path}(으)로 내보냈습니다.",
+  exportEmpty: "내보낼 카운트다운이 없습니다.",
+  importChooseFile: ".ics 파일 선택…",
+  importNoFiles: "보관함에서 .ics 파일을 찾을 수 없습니다.",
+  importNoEvents: "{file}에 일정이 없습니다.",
+  importHeading: "일정 가져오기",
+  importHint: "카운트다운 블록으로 삽입할 일정을 선택하세요. 다가오는 일정과 반복 일정은 미리 선택되어 있습니다.",
+  importRepeats: "반복: {rule}",
+  importRepeatUnsupported: "반복 규칙을 변환할 수 없어 첫 날짜만 가져옵니다.",
+  importDone: "카운트다운 {count}개를 삽입했습니다.",
+  settingsTaskCountdowns: "할 일 마감일 카운트다운",
+  settingsTaskCountdownsHint: "📅 날짜나 [due:: 날짜]가 붙은 미완료 할 일 뒤에 작은 카운트다운을 표시합니다.",
+  listViewTitle: "모든 카운트다운",
+  listEmpty: "이 보관함에는 아직 카운트다운 블록이 없습니다.",
+  insertHeading: "카운트다운 삽입",
+  editHeading: "카운트다운 편집",
+  targetLabel: "종료 시간",
+  targetPreview: "{date}(으)로 해석됨",
+  timeZoneLabel: "시간대",
+  timeZoneHint: "종료 시간을 기준으로 하는 시간대입니다. 보는 사람에게는 자신의 시간대로도 표시됩니다.",
+  timeZoneDevice: "이 기기 ({zone})",
+  timeZoneLocal: "내 시간",
+  targetHint: "종료 시간을 선택하거나 “in 3h 20m”, “next Friday 17:00”, “tomorrow noon”, “end of month”처럼 영어로 입력하세요.",
+  labelLabel: "레이블",
+  labelHint: "숫자 아래에 표시됩니다.",
+  colorLabel: "색상",
+  colorHint: "카운트다운 블록의 강조 색상입니다.",
+  modeLabel: "모드",
+  modeHint: "특정 시간까지 카운트다운하거나, 지난 시간부터 카운트업하거나, 스톱워치로 사용합니다.",
+  modeCountdown: "카운트다운",
+  modeSince: "경과 시간",
+  modeStopwatch: "스톱워치",
+  stopwatchStart: "시작",
+  stopwatchStop: "정지",
+  stopwatchReset: "초기화",
+  repeatLabel: "반복",
+  repeatHint: "항상 다음 발생 시간까지 카운트다운합니다.",
+  repeatNone: "반복 안 함",
+  repeatDaily: "매일",
+  repeatWeekly: "매주",
+  repeatMonthly: "매월",
+  repeatCron: "사용자 지정 (cron)",
+  repeatWeekdaysLabel: "요일",
+  repeatMonthDayLabel: "날짜",
+  repeatMonthLast: "마지막 날",
+  repeatCronLabel: "cron 표현식",
+  repeatCronHint: "분, 시, 일, 월, 요일 — 예: 0 9 * * 1-5",
+  repeatInvalid: "반복 규칙이 올바르지 않습니다.",
+  occurrenceNext: "다음: {date}",
+  occurrencePrevious: "이전: {date}",
+  expiryLabel: "종료 후",
+  expiryHint: "종료 시간이 지난 뒤 블록에 표시할 내용입니다.",
+  expiryFreeze: "0에서 멈춤",
+  expiryElapsed: "경과 시간 표시",
+  expiryMessage: "메시지 표시",
+  expiryMessageLabel: "완료 메시지",
+  expiryMessageHint: "카운트다운이 끝나면 숫자 대신 표시됩니다.",
+  expiredCaption: "종료됨",
+  modalConfirm: "확인",
+  modalCancel: "취소",
+  emptyWarning: "종료 날짜와 시간을 선택하세요.",
+  parseWarning: "종료 날짜를 해석할 수 없습니다.",
+  applyError: "카운트다운 변경 사항을 적용하지 못했습니다.",
+  blockChanged: "카운트다운이 표시된 뒤 노트가 바뀌어 편집을 적용하지 않았습니다. 다시 시도하세요.",
+  openMarkdownWarning: "카운트다운을 삽입하려면 마크다운 파일을 여세요.",
+  blockMissingTarget: "카운트다운 블록에 종료 날짜가 필요합니다.",
+  blockInvalidTarget: "카운트다운 종료 날짜가 올바르지 않습니다.",
+  blockMissingProperty: "{note}의 \"{property}\" 속성에서 날짜를 읽을 수 없습니다.",
+  startLabel: "시작",
+  startHint: "선택 사항입니다. 설정하면 시작부터 종료까지 지난 비율을 진행 막대로 표시합니다.",
+  startAfterTarget: "시작 시간은 종료 시간보다 앞서야 합니다.",
+  progressElapsed: "{percent}% 경과",
+  timelineEmpty: "\"- 2026-03-01 17:00; 코드 동결\" 같은 줄로 마일스톤을 추가하세요.",
+  timelineInvalidLine: "마일스톤을 읽을 수 없습니다: {line}",
+  timelineDone: "완료",
+  timelineComplete: "모든 마일스톤 달성",
+  toolbarEdit: "카운트다운 편집",
+  toolbarColour: "색상 변경",
+  toolbarPin: "상태 표시줄에 고정",
+  toolbarUnpin: "상태 표시줄 고정 해제",
+  toolbarPause: "일시 정지",
+  toolbarResume: "재개",
+  toolbarAddTime: "{minutes}분 추가",
+  toolbarSubtractTime: "{minutes}분 빼기",
+  pausedCaption: "일시 정지됨",
+  colorPopoverTitle: "색상",
+  defaultLabel: "카운트다운",
+  settingsDefaultLabel: "기본 레이블",
+  settingsDefaultDuration: "기본 길이 (분)",
+  settingsDefaultColour: "기본 색상",
+  settingsDefaultColourHint: "팔레트 색상을 고르거나 원하는 색상을 입력하세요: #36F, #3370FF80, rgb(51 112 255), hsl(220 100% 60%), 또는 accent, red 같은 테마 색상.",
+  settingsPaletteHeading: "색상 팔레트",
+  settingsPaletteHint: "색상 버튼과 대화 상자에 이 순서대로 표시되는 색상입니다. 색상이 없는 타임라인 마일스톤은 이 색상을 차례로 사용합니다.",
+  settingsPaletteAdd: "색상 추가",
+  settingsPaletteAddButton: "추가",
+  settingsPaletteReset: "기본 팔레트로 복원",
+  paletteMoveUp: "위로 이동",
+  paletteMoveDown: "아래로 이동",
+  paletteRemove: "삭제",
+  colorInvalid: "인식할 수 없는 색상입니다. 16진수, rgb(), hsl(), var(--name) 또는 테마 색상 이름을 사용하세요.",
+  settingsDefaultStyle: "기본 스타일",
+  settingsDefaultStyleHint: "style: 줄이 없는 블록의 모양입니다.",
+  styleRibbon: "리본",
+  styleMinimal: "간단한 텍스트",
+  styleFlip: "플립 시계",
+  styleHero: "히어로",
+  settingsLanguageHeading: "언어",
+  settingsLanguage: "인터페이스 언어",
+  settingsLanguageHint: "플러그인 레이블, 메시지, 날짜에 쓰이는 언어입니다. 명령 이름은 Obsidian을 다시 시작한 뒤 바뀝니다.",
+  settingsLanguageAuto: "Obsidian 설정 따르기 ({language})",
+  settingsTranslationFile: "번역 파일",
+  settingsTranslationFileHint: "문자열을 덮어쓰거나 추가하는 보관함 내 JSON 파일 경로입니다 (예: countdown-translations.json). 저장할 때마다 다시 읽습니다.",
+  settingsTranslationFileReload: "번역 파일 다시 읽기",
+  translationFileError: "번역 파일 {path}을(를) 읽을 수 없습니다: {error}",
+  settingsWorkingTimeHeading: "근무 시간",
+  settingsWorkdays: "근무일",
+  settingsWorkdaysHint: "calendar: business 블록은 이 요일만 셉니다.",
+  settingsWorkHours: "근무 시간대",
+  settingsWorkHoursHint: "근무일의 시작과 끝, 예: 09:00 및 18:00.",
+  settingsHolidays: "공휴일과 대체 근무일",
+  settingsHolidaysHint: "한 줄에 날짜 하나, 예: 2026-10-01. 기간은 2026-10-01 2026-10-07처럼 씁니다. \"work\"를 붙이면 근무일이 됩니다.",
+  settingsHolidaysImport: "가져오기…",
+  settingsHolidaysClear: "지우기",
+  holidaysChooseFile: "공휴일 파일 선택(.ics, .json, .csv, .txt)…",
+  holidaysNoFiles: "보관함에 .ics, .json, .csv, .txt 파일이 없습니다.",
+  holidaysImportDone: "공휴일 {holidays}일과 대체 근무일 {workdays}일을 가져왔습니다.",
+  holidaysImportEmpty: "{file}에서 날짜를 찾지 못했습니다.",
+  businessCalendarTime: "근무 시간 · 달력상 {duration} 남음",
+  settingsNotificationsHeading: "알림",
+  settingsNotificationsEnabled: "카운트다운 종료 시 알림",
+  settingsNotificationsEnabledHint: "보관함의 카운트다운이 종료되면 노트가 닫혀 있어도 알림을 표시합니다.",
+  settingsSystemNotifications: "시스템 알림",
+  settingsSystemNotificationsHint: "데스크톱 알림도 표시합니다. 처음에는 Obsidian이 권한을 요청합니다.",
+  settingsNotificationSound: "소리 재생",
+  settingsNotificationSoundHint: "알림마다 짧은 알림음을 재생합니다.",
+  settingsReminders: "사전 알림",
+  settingsRemindersHint: "쉼표로 구분한 사전 알림 시간 (예: 1d, 15m). 비워 두면 종료 시에만 알립니다.",
+  ribbonQuickTimer: "빠른 타이머 시작",
+  commandStartTimer: "{duration} 타이머 시작",
+  commandStartPreset: "빠른 타이머 시작…",
+  commandStartPomodoro: "뽀모도로 시작",
+  commandStopTimer: "빠른 타이머 정지",
+  quickTimerLabel: "{duration} 타이머",
+  quickTimerDone: "{label} 종료.",
+  quickTimerStop: "타이머 정지",
+  quickTimerSkip: "다음 단계로 건너뛰기",
+  pomodoroWork: "집중",
+  pomodoroBreak: "휴식",
+  pomodoroLongBreak: "긴 휴식",
+  pomodoroWorkDone: "집중 세션이 끝났습니다. 잠시 쉬세요.",
+  pomodoroBreakDone: "휴식이 끝났습니다. 다시 집중하세요.",
+  pomodoroLogEntry: "- 🍅 {start}–{end} 집중 세션 ({duration})",
+  settingsQuickTimersHeading: "빠른 타이머",
+  settingsCustomPresets: "사용자 지정 프리셋",
+  settingsCustomPresetsHint: "리본 메뉴와 빠른 타이머 명령에 추가할 길이 (예: 10m, 1h30m). 5, 15, 25, 50분은 항상 사용할 수 있습니다.",
+  settingsQuickTimerInsert: "시작할 때 블록 삽입",
+  settingsQuickTimerInsertHint: "빠른 타이머를 시작할 때마다 활성 노트의 커서 위치에 카운트다운 블록도 삽입합니다.",
+  settingsPomodoroWork: "뽀모도로 집중 (분)",
+  settingsPomodoroBreak: "뽀모도로 휴식 (분)",
+  settingsPomodoroLongBreak: "뽀모도로 긴 휴식 (분)",
+  settingsPomodoroLongBreakEvery: "긴 휴식 간격",
+  settingsPomodoroLongBreakEveryHint: "긴 휴식 전까지의 집중 세션 수입니다.",
+  settingsPomodoroLog: "일일 노트에 기록",
+  settingsPomodoroLogHint: "집중 세션을 마칠 때마다 오늘의 일일 노트에 한 줄을 추가합니다 (일일 노트 코어 플러그인의 폴더와 날짜 형식 사용).",
+  notifyReached: "“{label}”이(가) 종료 시간에 도달했습니다.",
+  notifyUpcoming: "“{label}”이(가) {time} 후에 종료됩니다.",
+  settingsDisplayHeading: "표시",
+  settingsDefaultUnits: "기본 단위",
+  settingsDefaultUnitsHint: "units: 줄이 없는 블록에 표시할 단위입니다.",
+  settingsDefaultFormat: "기본 형식",
+  settingsDefaultFormatHint: "format: 줄이 없는 블록의 표시 방식입니다.",
+  settingsHideLeadingZeros: "앞쪽 0 단위 숨기기",
+  settingsHideLeadingZerosHint: "큰 단위가 0인 동안 숨깁니다. 예: 00 : 00 : 05 : 12 대신 05:12.",
+  formatDigits: "숫자",
+  formatCompact: "간결하게 (3일 4시간)",
+  formatHuman: "자연어 (약 3주 후)",
+  humanFuture: "약 {duration} 후",
+  humanPast: "약 {duration} 전",
+  humanDuration: "약 {duration}",
+  humanYear: "{count}년",
+  humanYears: "{count}년",
+  humanMonth: "{count}개월",
+  humanMonths: "{count}개월",
+  humanWeek: "{count}주",
+  humanWeeks: "{count}주",
+  humanDay: "{count}일",
+  humanDays: "{count}일",
+  humanHour: "{count}시간",
+  humanHours: "{count}시간",
+  humanMinute: "{count}분",
+  humanMinutes: "{count}분",
+  humanSecond: "{count}초",
+  humanSeconds: "{count}초",
+  shortYears: "년",
+  shortMonths: "개월",
+  shortWeeks: "주",
+  shortDays: "일",
+  shortHours: "시간",
+  shortMinutes: "분",
+  shortSeconds: "초",
+  unitYears: "년",
+  unitMonths: "월",
+  unitWeeks: "주",
+  unitDays: "일",
+  unitHours: "시",
+  unitMinutes: "분",
+  unitSeconds: "초"
+};
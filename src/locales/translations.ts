@@ -0,0 +1,215 @@
+export interface Translations {
+  commandInsert: string;
+  commandOpenList: string;
+  commandConvertTask: string;
+  commandExportVault: string;
+  commandExportNote: string;
+  commandImportIcs: string;
+  exportDone: string;
+  exportEmpty: string;
+  importChooseFile: string;
+  importNoFiles: string;
+  importNoEvents: string;
+  importHeading: string;
+  importHint: string;
+  importRepeats: string;
+  importRepeatUnsupported: string;
+  importDone: string;
+  settingsTaskCountdowns: string;
+  settingsTaskCountdownsHint: string;
+  listViewTitle: string;
+  listEmpty: string;
+  insertHeading: string;
+  editHeading: string;
+  targetLabel: string;
+  targetHint: string;
+  targetPreview: string;
+  timeZoneLabel: string;
+  timeZoneHint: string;
+  timeZoneDevice: string;
+  timeZoneLocal: string;
+  labelLabel: string;
+  labelHint: string;
+  colorLabel: string;
+  colorHint: string;
+  modeLabel: string;
+  modeHint: string;
+  modeCountdown: string;
+  modeSince: string;
+  modeStopwatch: string;
+  stopwatchStart: string;
+  stopwatchStop: string;
+  stopwatchReset: string;
+  repeatLabel: string;
+  repeatHint: string;
+  repeatNone: string;
+  repeatDaily: string;
+  repeatWeekly: string;
+  repeatMonthly: string;
+  repeatCron: string;
+  repeatWeekdaysLabel: string;
+  repeatMonthDayLabel: string;
+  repeatMonthLast: string;
+  repeatCronLabel: string;
+  repeatCronHint: string;
+  repeatInvalid: string;
+  occurrenceNext: string;
+  occurrencePrevious: string;
+  expiryLabel: string;
+  expiryHint: string;
+  expiryFreeze: string;
+  expiryElapsed: string;
+  expiryMessage: string;
+  expiryMessageLabel: string;
+  expiryMessageHint: string;
+  expiredCaption: string;
+  modalConfirm: string;
+  modalCancel: string;
+  emptyWarning: string;
+  parseWarning: string;
+  applyError: string;
+  blockChanged: string;
+  openMarkdownWarning: string;
+  blockMissingTarget: string;
+  blockInvalidTarget: string;
+  blockMissingProperty: string;
+  timelineEmpty: string;
+  startLabel: string;
+  startHint: string;
+  startAfterTarget: string;
+  progressElapsed: string;
+  timelineInvalidLine: string;
+  timelineDone: string;
+  timelineComplete: string;
+  toolbarEdit: string;
+  toolbarColour: string;
+  toolbarPin: string;
+  toolbarUnpin: string;
+  toolbarPause: string;
+  toolbarResume: string;
+  toolbarAddTime: string;
+  toolbarSubtractTime: string;
+  pausedCaption: string;
+  colorPopoverTitle: string;
+  defaultLabel: string;
+  settingsDefaultLabel: string;
+  settingsDefaultDuration: string;
+  settingsDefaultColour: string;
+  settingsDefaultColourHint: string;
+  settingsPaletteHeading: string;
+  settingsPaletteHint: string;
+  settingsPaletteAdd: string;
+  settingsPaletteAddButton: string;
+  settingsPaletteReset: string;
+  paletteMoveUp: string;
+  paletteMoveDown: string;
+  paletteRemove: string;
+  colorInvalid: string;
+  settingsDefaultStyle: string;
+  settingsDefaultStyleHint: string;
+  styleRibbon: string;
+  styleMinimal: string;
+  styleFlip: string;
+  styleHero: string;
+  settingsLanguageHeading: string;
+  settingsLanguage: string;
+  settingsLanguageHint: string;
+  settingsLanguageAuto: string;
+  settingsTranslationFile: string;
+  settingsTranslationFileHint: string;
+  settingsTranslationFileReload: string;
+  translationFileError: string;
+  settingsWorkingTimeHeading: string;
+  settingsWorkdays: string;
+  settingsWorkdaysHint: string;
+  settingsWorkHours: string;
+  settingsWorkHoursHint: string;
+  settingsHolidays: string;
+  settingsHolidaysHint: string;
+  settingsHolidaysImport: string;
+  settingsHolidaysClear: string;
+  holidaysChooseFile: string;
+  holidaysNoFiles: string;
+  holidaysImportDone: string;
+  holidaysImportEmpty: string;
+  businessCalendarTime: string;
+  settingsNotificationsHeading: string;
+  settingsNotificationsEnabled: string;
+  settingsNotificationsEnabledHint: string;
+  settingsSystemNotifications: string;
+  settingsSystemNotificationsHint: string;
+  settingsNotificationSound: string;
+  settingsNotificationSoundHint: string;
+  settingsReminders: string;
+  settingsRemindersHint: string;
+  ribbonQuickTimer: string;
+  commandStartTimer: string;
+  commandStartPreset: string;
+  commandStartPomodoro: string;
+  commandStopTimer: string;
+  quickTimerLabel: string;
+  quickTimerDone: string;
+  quickTimerStop: string;
+  quickTimerSkip: string;
+  pomodoroWork: string;
+  pomodoroBreak: string;
+  pomodoroLongBreak: string;
+  pomodoroWorkDone: string;
+  pomodoroBreakDone: string;
+  pomodoroLogEntry: string;
+  settingsQuickTimersHeading: string;
+  settingsCustomPresets: string;
+  settingsCustomPresetsHint: string;
+  settingsQuickTimerInsert: string;
+  settingsQuickTimerInsertHint: string;
+  settingsPomodoroWork: string;
+  settingsPomodoroBreak: string;
+  settingsPomodoroLongBreak: string;
+  settingsPomodoroLongBreakEvery: string;
+  settingsPomodoroLongBreakEveryHint: string;
+  settingsPomodoroLog: string;
+  settingsPomodoroLogHint: string;
+  notifyReached: string;
+  notifyUpcoming: string;
+  settingsDisplayHeading: string;
+  settingsDefaultUnits: string;
+  settingsDefaultUnitsHint: string;
+  settingsDefaultFormat: string;
+  settingsDefaultFormatHint: string;
+  settingsHideLeadingZeros: string;
+  settingsHideLeadingZerosHint: string;
+  formatDigits: string;
+  formatCompact: string;
+  formatHuman: string;
+  humanFuture: string;
+  humanPast: string;
+  humanDuration: string;
+  humanYear: string;
+  humanYears: string;
+  humanMonth: string;
+  humanMonths: string;
+  humanWeek: string;
+  humanWeeks: string;
+  humanDay: string;
+  humanDays: string;
+  humanHour: string;
+  humanHours: string;
+  humanMinute: string;
+  humanMinutes: string;
+  humanSecond: string;
+  humanSeconds: string;
+  shortYears: string;
+  shortMonths: string;
+  shortWeeks: string;
+  shortDays: string;
+  shortHours: string;
+  shortMinutes: string;
+  shortSeconds: string;
+  unitYears: string;
+  unitMonths: string;
+  unitWeeks: string;
+  unitDays: string;
+  unitHours: string;
+  unitMinutes: string;
+  unitSeconds: string;
+}
@@ -0,0 +1,217 @@
+import type { Translations } from "./translations";
+
+export const zhTW: Translations = {
+  commandInsert: "插入倒數計時",
+  commandOpenList: "檢視全部倒數計時",
+  commandConvertTask: "將任務轉為倒數計時",
+  commandExportVault: "將所有倒數計時匯出為 .ics",
+  commandExportNote: "將目前筆記的倒數計時匯出為 .ics",
+  commandImportIcs: "從 .ics 檔案匯入事件",
+  exportDone: "已將 {count} 個倒數計時匯出到 {path}。",
+  exportEmpty: "沒有可匯出的倒數計時。",
+  importChooseFile: "選擇 .ics 檔案…",
+  importNoFiles: "儲存庫中找不到 .ics 檔案。",
+  importNoEvents: "{file} 中沒有事件。",
+  importHeading: "匯入事件",
+  importHint: "選擇要插入為倒數計時區塊的事件。即將到來與重複的事件已預設選取。",
+  importRepeats: "重複：{rule}",
+  importRepeatUnsupported: "無法轉換其重複規則，只會匯入第一個日期。",
+  importDone: "已插入 {count} 個倒數計時。",
+  settingsTaskCountdowns: "任務截止日期倒數計時",
+  settingsTaskCountdownsHint: "在帶有 📅 日期或 [due:: 日期] 標註的未完成任務後顯示精簡倒數計時。",
+  listViewTitle: "全部倒數計時",
+  listEmpty: "儲存庫中還沒有倒數計時區塊。",
+  insertHeading: "插入倒數計時",
+  editHeading: "編輯倒數計時",
+  targetLabel: "結束時間",
+  targetPreview: "解析為 {date}",
+  timeZoneLabel: "時區",
+  timeZoneHint: "目標時間所使用的時區，檢視者也會看到換算後的當地時間。",
+  timeZoneDevice: "本裝置（{zone}）",
+  timeZoneLocal: "當地時間",
+  targetHint: "選擇結束時間，或輸入如「3天後」「下週五 17:00」「明天中午」「月底」。",
+  labelLabel: "標籤",
+  labelHint: "顯示在數字下方，可留空。",
+  colorLabel: "顏色",
+  colorHint: "倒數計時區塊的強調色。",
+  modeLabel: "模式",
+  modeHint: "倒數到某個時間、從過去的時間開始正數，或當作碼錶使用。",
+  modeCountdown: "倒數",
+  modeSince: "已經過",
+  modeStopwatch: "碼錶",
+  stopwatchStart: "開始",
+  stopwatchStop: "停止",
+  stopwatchReset: "重設",
+  repeatLabel: "重複",
+  repeatHint: "一律倒數到下一次發生的時間。",
+  repeatNone: "不重複",
+  repeatDaily: "每天",
+  repeatWeekly: "每週",
+  repeatMonthly: "每月",
+  repeatCron: "自訂（cron）",
+  repeatWeekdaysLabel: "重複日",
+  repeatMonthDayLabel: "每月幾號",
+  repeatMonthLast: "最後一天",
+  repeatCronLabel: "Cron 運算式",
+  repeatCronHint: "分 時 日 月 週，例如 0 9 * * 1-5。",
+  repeatInvalid: "重複規則無效。",
+  occurrenceNext: "下一次：{date}",
+  occurrencePrevious: "上一次：{date}",
+  expiryLabel: "結束後",
+  expiryHint: "到達結束時間後倒數計時區塊的顯示方式。",
+  expiryFreeze: "停在零",
+  expiryElapsed: "顯示已超過的時間",
+  expiryMessage: "顯示提示文字",
+  expiryMessageLabel: "結束提示",
+  expiryMessageHint: "倒數結束後取代數字顯示。",
+  expiredCaption: "已結束",
+  modalConfirm: "確認",
+  modalCancel: "取消",
+  emptyWarning: "請選擇結束時間。",
+  parseWarning: "無法解析該時間，請重新選擇。",
+  applyError: "套用倒數計時時發生錯誤。",
+  blockChanged: "倒數計時顯示後筆記已被修改，本次編輯未套用，請重試。",
+  openMarkdownWarning: "請在 Markdown 檔案中插入倒數計時。",
+  blockMissingTarget: "倒數計時區塊缺少目標時間。",
+  blockInvalidTarget: "倒數計時區塊的目標時間無效。",
+  blockMissingProperty: "無法從 {note} 的「{property}」屬性讀取日期。",
+  startLabel: "開始時間",
+  startHint: "選填。填寫後會顯示進度條，表示從開始到目標已經過了多少。",
+  startAfterTarget: "開始時間必須早於目標時間。",
+  progressElapsed: "已過 {percent}%",
+  timelineEmpty: "請依「- 2026-03-01 17:00; 程式碼凍結」的格式逐行新增里程碑。",
+  timelineInvalidLine: "無法解析里程碑：{line}",
+  timelineDone: "已完成",
+  timelineComplete: "所有里程碑皆已達成",
+  toolbarEdit: "編輯倒數計時",
+  toolbarColour: "變更顏色",
+  toolbarPin: "釘選到狀態列",
+  toolbarUnpin: "取消釘選",
+  toolbarPause: "暫停",
+  toolbarResume: "繼續",
+  toolbarAddTime: "增加 {minutes} 分鐘",
+  toolbarSubtractTime: "減少 {minutes} 分鐘",
+  pausedCaption: "已暫停",
+  colorPopoverTitle: "顏色",
+  defaultLabel: "倒數計時",
+  settingsDefaultLabel: "預設標籤",
+  settingsDefaultDuration: "預設時長（分鐘）",
+  settingsDefaultColour: "預設顏色",
+  settingsDefaultColourHint: "選擇調色盤中的顏色，或輸入任意顏色：#36F、#3370FF80、rgb(51 112 255)、hsl(220 100% 60%)，或 accent、red 等主題顏色。",
+  settingsPaletteHeading: "調色盤",
+  settingsPaletteHint: "顏色按鈕與對話框中提供的顏色，依此順序排列。未設定顏色的時間軸里程碑會依序使用這些顏色。",
+  settingsPaletteAdd: "新增顏色",
+  settingsPaletteAddButton: "新增",
+  settingsPaletteReset: "還原預設調色盤",
+  paletteMoveUp: "上移",
+  paletteMoveDown: "下移",
+  paletteRemove: "移除",
+  colorInvalid: "無法辨識的顏色。請使用十六進位、rgb()、hsl()、var(--name) 或主題顏色名稱。",
+  settingsDefaultStyle: "預設樣式",
+  settingsDefaultStyleHint: "區塊未寫 style: 時的外觀。",
+  styleRibbon: "飛書色塊",
+  styleMinimal: "簡潔文字",
+  styleFlip: "翻頁時鐘",
+  styleHero: "大字展示",
+  settingsLanguageHeading: "語言",
+  settingsLanguage: "介面語言",
+  settingsLanguageHint: "外掛標籤、提示與日期使用的語言。命令名稱會在重新啟動 Obsidian 後更新。",
+  settingsLanguageAuto: "跟隨 Obsidian（{language}）",
+  settingsTranslationFile: "翻譯檔案",
+  settingsTranslationFileHint: "儲存庫中用來覆寫或補充文字的 JSON 檔案路徑，例如 countdown-translations.json。檔案儲存後會自動重新讀取。",
+  settingsTranslationFileReload: "重新讀取翻譯檔案",
+  translationFileError: "無法讀取翻譯檔案 {path}：{error}",
+  settingsWorkingTimeHeading: "工作時間",
+  settingsWorkdays: "工作日",
+  settingsWorkdaysHint: "calendar: business 的倒數計時只計算這些日子。",
+  settingsWorkHours: "工作時段",
+  settingsWorkHoursHint: "每個工作日的開始和結束時間，例如 09:00 和 18:00。",
+  settingsHolidays: "假日與補班日",
+  settingsHolidaysHint: "每行一個日期，例如 2026-10-01，或用 2026-10-01 2026-10-07 表示一段日期。加上「班」表示補班日。",
+  settingsHolidaysImport: "匯入…",
+  settingsHolidaysClear: "清除",
+  holidaysChooseFile: "選擇假日檔案（.ics、.json、.csv 或 .txt）…",
+  holidaysNoFiles: "儲存庫中沒有 .ics、.json、.csv 或 .txt 檔案。",
+  holidaysImportDone: "已匯入 {holidays} 個假日和 {workdays} 個補班日。",
+  holidaysImportEmpty: "{file} 中找不到日期。",
+  businessCalendarTime: "工作時間 · 日曆時間還剩 {duration}",
+  settingsNotificationsHeading: "通知",
+  settingsNotificationsEnabled: "倒數結束時提醒",
+  settingsNotificationsEnabledHint: "儲存庫中任何倒數計時到達結束時間時顯示提示，即使所在筆記沒有開啟。",
+  settingsSystemNotifications: "系統通知",
+  settingsSystemNotificationsHint: "同時傳送桌面通知，首次啟用時 Obsidian 會要求權限。",
+  settingsNotificationSound: "播放提示音",
+  settingsNotificationSoundHint: "每次提醒時播放一段簡短的提示音。",
+  settingsReminders: "提前提醒",
+  settingsRemindersHint: "以逗號分隔的提前量，例如 1d, 15m。留空則只在結束時提醒。",
+  ribbonQuickTimer: "快速計時",
+  commandStartTimer: "開始 {duration} 計時",
+  commandStartPreset: "選擇快速計時…",
+  commandStartPomodoro: "開始番茄鐘",
+  commandStopTimer: "停止快速計時",
+  quickTimerLabel: "{duration} 計時",
+  quickTimerDone: "{label}已結束。",
+  quickTimerStop: "停止計時",
+  quickTimerSkip: "跳到下一階段",
+  pomodoroWork: "專注",
+  pomodoroBreak: "休息",
+  pomodoroLongBreak: "長休息",
+  pomodoroWorkDone: "專注結束，休息一下吧。",
+  pomodoroBreakDone: "休息結束，繼續專注。",
+  pomodoroLogEntry: "- 🍅 {start}–{end} 專注（{duration}）",
+  settingsQuickTimersHeading: "快速計時",
+  settingsCustomPresets: "自訂時長",
+  settingsCustomPresetsHint: "功能區選單與快速計時命令中額外提供的時長，例如 10m, 1h30m。5、15、25、50 分鐘一律可用。",
+  settingsQuickTimerInsert: "啟動時插入區塊",
+  settingsQuickTimerInsertHint: "每次啟動快速計時時，同時在目前筆記的游標處插入對應的倒數計時區塊。",
+  settingsPomodoroWork: "番茄鐘專注時長（分鐘）",
+  settingsPomodoroBreak: "番茄鐘休息時長（分鐘）",
+  settingsPomodoroLongBreak: "番茄鐘長休息時長（分鐘）",
+  settingsPomodoroLongBreakEvery: "長休息間隔",
+  settingsPomodoroLongBreakEveryHint: "每完成幾次專注後進行一次長休息。",
+  settingsPomodoroLog: "記錄到每日筆記",
+  settingsPomodoroLogHint: "每完成一次專注，就在今天的每日筆記末尾附加一行紀錄（沿用「每日筆記」核心外掛的資料夾與日期格式）。",
+  notifyReached: "「{label}」已到達結束時間。",
+  notifyUpcoming: "「{label}」將在 {time} 後結束。",
+  settingsDisplayHeading: "顯示",
+  settingsDefaultUnits: "預設單位",
+  settingsDefaultUnitsHint: "區塊未寫 units: 時顯示的單位。",
+  settingsDefaultFormat: "預設格式",
+  settingsDefaultFormatHint: "區塊未寫 format: 時的顯示方式。",
+  settingsHideLeadingZeros: "隱藏開頭為零的單位",
+  settingsHideLeadingZerosHint: "較大的單位為零時不顯示，例如顯示 05:12 而非 00 : 00 : 05 : 12。",
+  formatDigits: "數字方塊",
+  formatCompact: "精簡（3天 4小時）",
+  formatHuman: "口語化（約 3 週後）",
+  humanFuture: "約 {duration}後",
+  humanPast: "約 {duration}前",
+  humanDuration: "約 {duration}",
+  humanYear: "{count} 年",
+  humanYears: "{count} 年",
+  humanMonth: "{count} 個月",
+  humanMonths: "{count} 個月",
+  humanWeek: "{count} 週",
+  humanWeeks: "{count} 週",
+  humanDay: "{count} 天",
+  humanDays: "{count} 天",
+  humanHour: "{count} 小時",
+  humanHours: "{count} 小時",
+  humanMinute: "{count} 分鐘",
+  humanMinutes: "{count} 分鐘",
+  humanSecond: "{count} 秒",
+  humanSeconds: "{count} 秒",
+  shortYears: "年",
+  shortMonths: "個月",
+  shortWeeks: "週",
+  shortDays: "天",
+  shortHours: "小時",
+  shortMinutes: "分鐘",
+  shortSeconds: "秒",
+  unitYears: "年",
+  unitMonths: "月",
+  unitWeeks: "週",
+  unitDays: "天",
+  unitHours: "時",
+  unitMinutes: "分",
+  unitSeconds: "秒"
+};
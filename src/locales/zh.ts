@@ -0,0 +1,217 @@
+import type { Translations } from "./translations";
+
+export const zh: Translations = {
+  commandInsert: "插入倒计时",
+  commandOpenList: "查看全部倒计时",
+  commandConvertTask: "将任务转为倒计时",
+  commandExportVault: "导出所有倒计时为 .ics",
+  commandExportNote: "导出当前笔记的倒计时为 .ics",
+  commandImportIcs: "从 .ics 文件导入事件",
+  exportDone: "已导出 {count} 个倒计时到 {path}。",
+  exportEmpty: "没有可导出的倒计时。",
+  importChooseFile: "选择 .ics 文件…",
+  importNoFiles: "库中没有找到 .ics 文件。",
+  importNoEvents: "{file} 中没有事件。",
+  importHeading: "导入事件",
+  importHint: "选择要插入为倒计时块的事件。即将到来和重复的事件已默认选中。",
+  importRepeats: "重复：{rule}",
+  importRepeatUnsupported: "无法转换其重复规则，仅导入首次日期。",
+  importDone: "已插入 {count} 个倒计时。",
+  settingsTaskCountdowns: "任务截止日期倒计时",
+  settingsTaskCountdownsHint: "在带有 📅 日期或 [due:: 日期] 标注的未完成任务后显示紧凑倒计时。",
+  listViewTitle: "全部倒计时",
+  listEmpty: "库中还没有倒计时代码块。",
+  insertHeading: "插入倒计时",
+  editHeading: "编辑倒计时",
+  targetLabel: "结束时间",
+  targetPreview: "解析为 {date}",
+  timeZoneLabel: "时区",
+  timeZoneHint: "目标时间所使用的时区，查看者还会看到换算后的本地时间。",
+  timeZoneDevice: "本设备（{zone}）",
+  timeZoneLocal: "本地时间",
+  targetHint: "选择结束时间，或输入如“3天后”“下周五 17:00”“明天中午”“月底”。",
+  labelLabel: "标签",
+  labelHint: "显示在数字下方，可留空。",
+  colorLabel: "颜色",
+  colorHint: "倒计时块的高亮颜色。",
+  modeLabel: "模式",
+  modeHint: "倒数到某个时间、从过去的时间正计时，或作为秒表使用。",
+  modeCountdown: "倒计时",
+  modeSince: "已过去",
+  modeStopwatch: "秒表",
+  stopwatchStart: "开始",
+  stopwatchStop: "停止",
+  stopwatchReset: "重置",
+  repeatLabel: "重复",
+  repeatHint: "始终倒数到下一次发生的时间。",
+  repeatNone: "不重复",
+  repeatDaily: "每天",
+  repeatWeekly: "每周",
+  repeatMonthly: "每月",
+  repeatCron: "自定义（cron）",
+  repeatWeekdaysLabel: "重复日",
+  repeatMonthDayLabel: "每月几号",
+  repeatMonthLast: "最后一天",
+  repeatCronLabel: "Cron 表达式",
+  repeatCronHint: "分 时 日 月 周，例如 0 9 * * 1-5。",
+  repeatInvalid: "重复规则无效。",
+  occurrenceNext: "下一次：{date}",
+  occurrencePrevious: "上一次：{date}",
+  expiryLabel: "结束后",
+  expiryHint: "到达结束时间后倒计时块的显示方式。",
+  expiryFreeze: "停在零",
+  expiryElapsed: "显示已超出的时间",
+  expiryMessage: "显示提示文字",
+  expiryMessageLabel: "结束提示",
+  expiryMessageHint: "倒计时结束后替换数字显示。",
+  expiredCaption: "已结束",
+  modalConfirm: "确认",
+  modalCancel: "取消",
+  emptyWarning: "请选择结束时间。",
+  parseWarning: "无法解析该时间，请重新选择。",
+  applyError: "应用倒计时时出错。",
+  blockChanged: "倒计时显示后笔记已被修改，本次编辑未应用，请重试。",
+  openMarkdownWarning: "请在 Markdown 文件中插入倒计时。",
+  blockMissingTarget: "倒计时代码块缺少目标时间。",
+  blockInvalidTarget: "倒计时代码块的目标时间无效。",
+  blockMissingProperty: "无法从 {note} 的“{property}”属性读取日期。",
+  startLabel: "开始时间",
+  startHint: "可选。填写后会显示进度条，表示从开始到目标已经过去了多少。",
+  startAfterTarget: "开始时间必须早于目标时间。",
+  progressElapsed: "已过 {percent}%",
+  timelineEmpty: "请按“- 2026-03-01 17:00; 代码冻结”的格式逐行添加里程碑。",
+  timelineInvalidLine: "无法解析里程碑：{line}",
+  timelineDone: "已完成",
+  timelineComplete: "所有里程碑均已达成",
+  toolbarEdit: "修改倒计时",
+  toolbarColour: "更改颜色",
+  toolbarPin: "固定到状态栏",
+  toolbarUnpin: "取消固定",
+  toolbarPause: "暂停",
+  toolbarResume: "继续",
+  toolbarAddTime: "增加 {minutes} 分钟",
+  toolbarSubtractTime: "减少 {minutes} 分钟",
+  pausedCaption: "已暂停",
+  colorPopoverTitle: "颜色",
+  defaultLabel: "倒计时",
+  settingsDefaultLabel: "默认标签",
+  settingsDefaultDuration: "默认时长（分钟）",
+  settingsDefaultColour: "默认颜色",
+  settingsDefaultColourHint: "选择调色板中的颜色，或输入任意颜色：#36F、#3370FF80、rgb(51 112 255)、hsl(220 100% 60%)，或 accent、red 等主题颜色。",
+  settingsPaletteHeading: "调色板",
+  settingsPaletteHint: "颜色按钮和弹窗中提供的颜色，按此顺序排列。未设置颜色的时间线里程碑会依次使用这些颜色。",
+  settingsPaletteAdd: "添加颜色",
+  settingsPaletteAddButton: "添加",
+  settingsPaletteReset: "恢复默认调色板",
+  paletteMoveUp: "上移",
+  paletteMoveDown: "下移",
+  paletteRemove: "移除",
+  colorInvalid: "无法识别的颜色。请使用十六进制、rgb()、hsl()、var(--name) 或主题颜色名称。",
+  settingsDefaultStyle: "默认样式",
+  settingsDefaultStyleHint: "代码块未写 style: 时的外观。",
+  styleRibbon: "飞书色块",
+  styleMinimal: "简洁文字",
+  styleFlip: "翻页时钟",
+  styleHero: "大字展示",
+  settingsLanguageHeading: "语言",
+  settingsLanguage: "界面语言",
+  settingsLanguageHint: "插件标签、提示和日期使用的语言。命令名称在重启 Obsidian 后更新。",
+  settingsLanguageAuto: "跟随 Obsidian（{language}）",
+  settingsTranslationFile: "翻译文件",
+  settingsTranslationFileHint: "库中用于覆盖或补充文案的 JSON 文件路径，例如 countdown-translations.json。文件保存后会自动重新读取。",
+  settingsTranslationFileReload: "重新读取翻译文件",
+  translationFileError: "无法读取翻译文件 {path}：{error}",
+  settingsWorkingTimeHeading: "工作时间",
+  settingsWorkdays: "工作日",
+  settingsWorkdaysHint: "calendar: business 的倒计时只计算这些日子。",
+  settingsWorkHours: "工作时段",
+  settingsWorkHoursHint: "每个工作日的开始和结束时间，例如 09:00 和 18:00。",
+  settingsHolidays: "节假日与调休上班",
+  settingsHolidaysHint: "每行一个日期，例如 2026-10-01，或用 2026-10-01 2026-10-07 表示一段日期。加上“班”表示调休上班日。",
+  settingsHolidaysImport: "导入…",
+  settingsHolidaysClear: "清空",
+  holidaysChooseFile: "选择节假日文件（.ics、.json、.csv 或 .txt）…",
+  holidaysNoFiles: "库中没有 .ics、.json、.csv 或 .txt 文件。",
+  holidaysImportDone: "已导入 {holidays} 个假日和 {workdays} 个调休上班日。",
+  holidaysImportEmpty: "{file} 中没有找到日期。",
+  businessCalendarTime: "工作时间 · 日历时间还剩 {duration}",
+  settingsNotificationsHeading: "通知",
+  settingsNotificationsEnabled: "倒计时结束时提醒",
+  settingsNotificationsEnabledHint: "库中任意倒计时到达结束时间时弹出提示，即使所在笔记没有打开。",
+  settingsSystemNotifications: "系统通知",
+  settingsSystemNotificationsHint: "同时发送桌面通知，首次启用时 Obsidian 会请求权限。",
+  settingsNotificationSound: "播放提示音",
+  settingsNotificationSoundHint: "每次提醒时播放一段简短的提示音。",
+  settingsReminders: "提前提醒",
+  settingsRemindersHint: "用逗号分隔的提前量，例如 1d, 15m。留空则只在结束时提醒。",
+  ribbonQuickTimer: "快速计时",
+  commandStartTimer: "开始 {duration} 计时",
+  commandStartPreset: "选择快速计时…",
+  commandStartPomodoro: "开始番茄钟",
+  commandStopTimer: "停止快速计时",
+  quickTimerLabel: "{duration} 计时",
+  quickTimerDone: "{label}已结束。",
+  quickTimerStop: "停止计时",
+  quickTimerSkip: "跳到下一阶段",
+  pomodoroWork: "专注",
+  pomodoroBreak: "休息",
+  pomodoroLongBreak: "长休息",
+  pomodoroWorkDone: "专注结束，休息一下吧。",
+  pomodoroBreakDone: "休息结束，继续专注。",
+  pomodoroLogEntry: "- 🍅 {start}–{end} 专注（{duration}）",
+  settingsQuickTimersHeading: "快速计时",
+  settingsCustomPresets: "自定义时长",
+  settingsCustomPresetsHint: "功能区菜单和快速计时命令中额外提供的时长，例如 10m, 1h30m。5、15、25、50 分钟始终可用。",
+  settingsQuickTimerInsert: "启动时插入代码块",
+  settingsQuickTimerInsertHint: "每次启动快速计时时，同时在当前笔记光标处插入对应的倒计时代码块。",
+  settingsPomodoroWork: "番茄钟专注时长（分钟）",
+  settingsPomodoroBreak: "番茄钟休息时长（分钟）",
+  settingsPomodoroLongBreak: "番茄钟长休息时长（分钟）",
+  settingsPomodoroLongBreakEvery: "长休息间隔",
+  settingsPomodoroLongBreakEveryHint: "每完成多少次专注后进行一次长休息。",
+  settingsPomodoroLog: "记录到日记",
+  settingsPomodoroLogHint: "每完成一次专注，就在今天的日记末尾追加一行记录（沿用“日记”核心插件的文件夹与日期格式）。",
+  notifyReached: "“{label}”已到达结束时间。",
+  notifyUpcoming: "“{label}”将在 {time} 后结束。",
+  settingsDisplayHeading: "显示",
+  settingsDefaultUnits: "默认单位",
+  settingsDefaultUnitsHint: "代码块未写 units: 时显示的单位。",
+  settingsDefaultFormat: "默认格式",
+  settingsDefaultFormatHint: "代码块未写 format: 时的显示方式。",
+  settingsHideLeadingZeros: "隐藏开头为零的单位",
+  settingsHideLeadingZerosHint: "较大的单位为零时不显示，例如显示 05:12 而不是 00 : 00 : 05 : 12。",
+  formatDigits: "数字方块",
+  formatCompact: "紧凑（3天 4小时）",
+  formatHuman: "口语化（约 3 周后）",
+  humanFuture: "约 {duration}后",
+  humanPast: "约 {duration}前",
+  humanDuration: "约 {duration}",
+  humanYear: "{count} 年",
+  humanYears: "{count} 年",
+  humanMonth: "{count} 个月",
+  humanMonths: "{count} 个月",
+  humanWeek: "{count} 周",
+  humanWeeks: "{count} 周",
+  humanDay: "{count} 天",
+  humanDays: "{count} 天",
+  humanHour: "{count} 小时",
+  humanHours: "{count} 小时",
+  humanMinute: "{count} 分钟",
+  humanMinutes: "{count} 分钟",
+  humanSecond: "{count} 秒",
+  humanSeconds: "{count} 秒",
+  shortYears: "年",
+  shortMonths: "个月",
+  shortWeeks: "周",
+  shortDays: "天",
+  shortHours: "小时",
+  shortMinutes: "分钟",
+  shortSeconds: "秒",
+  unitYears: "年",
+  unitMonths: "月",
+  unitWeeks: "周",
+  unitDays: "天",
+  unitHours: "时",
+  unitMinutes: "分",
+  unitSeconds: "秒"
+};